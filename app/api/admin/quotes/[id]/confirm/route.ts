@@ -0,0 +1,41 @@
+/**
+ * ============================================================================
+ * CONFIRM PROVISIONAL QUOTE ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * POST → the owner confirms a provisional quote (travel estimated while the
+ * routing provider was down, see the review queue). The estimated travel
+ * stands and the customer can book a time.
+ *
+ * TRUST:
+ * Admin only: the `x-admin-token` header must match ADMIN_API_TOKEN.
+ *
+ * RESPONSES:
+ * 200 → confirmed (or was never provisional); 401 → not an admin request;
+ * 404 → unknown quote.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/app/lib/http';
+import { confirmProvisionalRouting, getQuote } from '@/app/lib/quote-store';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const stored = await getQuote(id);
+    if (!stored) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+    }
+
+    const quote = stored.routing.provisional ? await confirmProvisionalRouting(stored) : stored;
+    return NextResponse.json({ quoteId: quote.id, status: quote.status }, { status: 200 });
+  } catch (error) {
+    console.error('Confirm quote error:', error);
+    return NextResponse.json({ error: 'Failed to confirm quote' }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * ============================================================================
+ * RUN SHEET ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * GET ?date=YYYY-MM-DD → each crew's optimized route for the day, with ETAs
+ * (route-planner.ts). `format=html` returns a printable run sheet, one page
+ * per crew; the default is JSON, with a `printUrl` to open the run sheet in
+ * a browser.
+ *
+ * TRUST:
+ * Admin only: the `x-admin-token` header must match ADMIN_API_TOKEN, or the
+ * request is a `printUrl`—signed with ADMIN_API_TOKEN for that date and
+ * format, valid for 15 minutes (http.ts createSignedAdminUrl).
+ *
+ * RESPONSES:
+ * 200 → plan; 400 → missing or malformed date; 401 → not an admin request
+ * or an expired/altered link.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getPricingCatalog } from '@/app/lib/catalog-store';
+import { createSignedAdminUrl, escapeHtml, isAdminRequest, isSignedAdminRequest } from '@/app/lib/http';
+import { planDay, type CrewRoute, type DayPlan } from '@/app/lib/route-planner';
+import { withRoutingCache } from '@/app/lib/routing-cache';
+import { getRoutingProvider } from '@/app/lib/routing-providers';
+
+export async function GET(request: NextRequest) {
+  try {
+    const isAdmin = isAdminRequest(request);
+    if (!isAdmin && !isSignedAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const date = request.nextUrl.searchParams.get('date') ?? '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      return NextResponse.json({ error: 'Expected ?date=YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const catalog = await getPricingCatalog();
+    const plan = await planDay(date, catalog, withRoutingCache(getRoutingProvider()));
+
+    if (request.nextUrl.searchParams.get('format') === 'html') {
+      return new NextResponse(renderRunSheet(plan), {
+        status: 200,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    // Only the header mints links, so a signed link can't renew itself
+    const printUrl = isAdmin ? getPrintUrl(request, date) : undefined;
+    return NextResponse.json({ ...plan, printUrl }, { status: 200 });
+  } catch (error) {
+    console.error('Run sheet error:', error);
+    return NextResponse.json({ error: 'Failed to plan routes' }, { status: 500 });
+  }
+}
+
+function getPrintUrl(request: NextRequest, date: string): string | undefined {
+  const url = new URL(request.nextUrl.pathname, request.nextUrl.origin);
+  url.searchParams.set('date', date);
+  url.searchParams.set('format', 'html');
+  return createSignedAdminUrl(url);
+}
+
+// "2026-10-21" → "Wednesday, October 21, 2026" (date-only, so format in UTC)
+function formatRunDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', { dateStyle: 'full', timeZone: 'UTC' });
+}
+
+function renderCrewRoute(route: CrewRoute): string {
+  if (route.stops.length === 0) {
+    return `
+    <section>
+      <h2>${escapeHtml(route.crewName)}</h2>
+      <p>No jobs booked.</p>
+    </section>`;
+  }
+
+  const rows = route.stops
+    .map(
+      (stop, index) => `
+        <tr${stop.lateMinutes > 0 ? ' class="late"' : ''}>
+          <td>${index + 1}</td>
+          <td><strong>${stop.eta}</strong>${stop.lateMinutes > 0 ? `<br>${stop.lateMinutes} min late` : ''}</td>
+          <td>${stop.booking.start}–${stop.arriveBy}</td>
+          <td>${escapeHtml(stop.address)}<br><small>${stop.quoteId} · ${escapeHtml(stop.customerEmail)}</small></td>
+          <td>${escapeHtml(stop.job)}<br><small>${stop.onSiteMinutes} min on site, crew of ${stop.crewSize}</small></td>
+          <td>${stop.driveMinutes} min<br><small>${stop.distanceKm} km</small></td>
+          <td>${stop.leaveAt}</td>
+          <td class="notes"></td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <section>
+      <h2>${escapeHtml(route.crewName)}</h2>
+      <p>
+        Leave ${escapeHtml(route.depot)} at <strong>${route.departAt}</strong> ·
+        back by <strong>${route.returnAt}</strong> ·
+        ${route.driveMinutes} min / ${route.distanceKm} km driving
+        ${route.lateMinutes > 0 ? ` · <strong>${route.lateMinutes} min past arrival windows</strong>` : ''}
+      </p>
+      <table>
+        <thead>
+          <tr><th>#</th><th>ETA</th><th>Window</th><th>Address</th><th>Job</th><th>Drive</th><th>Leave</th><th>Notes</th></tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+// PRINTABLE: Plain HTML with print styles—one page per crew, no app chrome
+function renderRunSheet(plan: DayPlan): string {
+  const title = `Run Sheet: ${formatRunDate(plan.date)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #333; margin: 24px; }
+    h1, h2 { color: #2d3a6b; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { border: 1px solid #ccc; padding: 6px; text-align: left; vertical-align: top; }
+    th { background: #f0f2f8; }
+    td.notes { width: 18%; }
+    tr.late td { background: #fdecea; }
+    .provisional { padding: 8px; border: 1px solid #e0a800; background: #fff8e1; }
+    @media print {
+      body { margin: 0; }
+      section { break-after: page; }
+      section:last-of-type { break-after: auto; }
+    }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p>Times are local (${escapeHtml(plan.timeZone)}). Generated ${new Date(plan.generatedAt).toLocaleString('en-CA', { timeZone: plan.timeZone })}.</p>
+  ${plan.provisional ? '<p class="provisional">Some drive times are straight-line estimates—the routing service was unavailable.</p>' : ''}
+  ${plan.crews.map(renderCrewRoute).join('')}
+</body>
+</html>`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Local stand-in for a hosted checkout page (PAYMENT_PROVIDER=fake only).
+ *
+ * "Pays" straight away by posting the fake provider's completion webhook to
+ * /api/payments/webhook, exactly as a real provider would, then sends the
+ * customer back to their quote.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProvider } from '@/app/lib/payment-providers';
+
+export async function GET(request: NextRequest) {
+  if (getPaymentProvider()?.name !== 'fake') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { searchParams, origin } = request.nextUrl;
+  const successUrl = searchParams.get('success') ?? '';
+
+  const response = await fetch(`${origin}/api/payments/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      quoteId: searchParams.get('quote'),
+      sessionId: searchParams.get('session'),
+      amount: Number(searchParams.get('amount')),
+      currency: searchParams.get('currency'),
+    }),
+  });
+  if (!response.ok) {
+    console.error('Fake checkout webhook failed:', response.status);
+  }
+
+  // SECURITY: Only redirect back into this app (SITE_URL may differ from the dev origin)
+  const allowedOrigins = [origin, process.env.SITE_URL].filter(Boolean).map((url) => new URL(url as string).origin);
+  const redirectTo = URL.canParse(successUrl) && allowedOrigins.includes(new URL(successUrl).origin) ? successUrl : '/';
+  return NextResponse.redirect(new URL(redirectTo, origin));
+}
@@ -0,0 +1,135 @@
+/**
+ * ============================================================================
+ * PAYMENT WEBHOOK ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Receives payment notifications from the configured payment provider,
+ * marks the quote's deposit paid, and emails the customer a receipt (with a
+ * copy of the news to the owner).
+ *
+ * TRUST:
+ * The provider verifies the payload (Stripe: signed with
+ * STRIPE_WEBHOOK_SECRET). The paid session and amount must match the
+ * checkout stored on the quote (deposits.ts).
+ *
+ * RESPONSES:
+ * 200 → recorded, already recorded (retries), or an event we don't act on;
+ * 400 → bad signature/payload or no matching checkout (surfaces in the
+ * provider's dashboard); 404 → deposits not enabled.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { Resend } from 'resend';
+import { confirmDepositPayment, DepositError } from '@/app/lib/deposits';
+import { escapeHtml } from '@/app/lib/http';
+import { getPaymentProvider } from '@/app/lib/payment-providers';
+import type { DepositPayment, StoredQuote } from '@/app/lib/quote-store';
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({ error: 'Deposits are not enabled' }, { status: 404 });
+    }
+
+    // Signatures cover the exact bytes sent, so read the raw body
+    const payload = await request.text();
+    const { event, error } = await provider.parseWebhook(payload, request.headers);
+    if (error) {
+      console.error('Payment webhook rejected:', error);
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (!event) {
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    const result = await confirmDepositPayment(event, provider);
+    if (result.error === DepositError.ALREADY_PAID) {
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+    if (result.error || !result.quote || !result.payment) {
+      console.error('Payment does not match a deposit checkout:', result.error, event.quoteId, event.sessionId);
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await sendDepositReceipt(result.quote, result.payment);
+    return NextResponse.json({ received: true }, { status: 200 });
+  } catch (error) {
+    console.error('Payment webhook error:', error);
+    return NextResponse.json({ error: 'Failed to process payment webhook' }, { status: 500 });
+  }
+}
+
+// RECEIPT: Customer gets the receipt; the owner learns the booking is secured
+async function sendDepositReceipt(quote: StoredQuote, payment: DepositPayment) {
+  const amountText = `$${payment.amount.toFixed(2)} ${payment.currency.toUpperCase()}`;
+  const paidDate = new Date(payment.paidAt).toLocaleDateString('en-CA', { dateStyle: 'long' });
+  const sanitizedAddress = escapeHtml(quote.input.address);
+  const accepted = quote.acceptance?.price;
+
+  const customerEmailTemplate = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #2d3a6b;">Deposit Received—Your Booking Is Secured</h2>
+      <p>Hi there,</p>
+      <p>Thanks! We've received your booking deposit for:</p>
+      <p style="font-weight: bold; color: #2d3a6b; font-size: 16px;">${sanitizedAddress}</p>
+
+      <h3 style="color: #2d3a6b; margin-top: 30px;">Receipt</h3>
+      <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Quote reference</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">${quote.id}</td>
+        </tr>
+        ${accepted ? `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Accepted</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">${escapeHtml(accepted.name)} ($${accepted.minPrice.toLocaleString()} - $${accepted.maxPrice.toLocaleString()} incl. tax)</td>
+        </tr>
+        ` : ''}
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Date paid</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">${paidDate}</td>
+        </tr>
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Payment reference</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">${escapeHtml(payment.paymentId)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 10px 0; color: #2d3a6b; font-weight: bold;">Deposit paid</td>
+          <td style="padding: 10px 0; color: #2d3a6b; font-weight: bold; text-align: right;">${amountText}</td>
+        </tr>
+      </table>
+      <p style="color: #333;">The deposit is deducted from your final invoice. We'll be in touch to schedule your service.</p>
+      <p style="color: #666; font-size: 14px; margin-top: 30px;">Questions? Call us at (206) 619-7551 and mention ${quote.id}.</p>
+    </div>
+  `;
+
+  const customerEmailPromise = resend.emails.send({
+    from: 'onboarding@resend.dev',
+    to: quote.input.customerEmail,
+    subject: `Deposit Receipt: ${amountText} for ${quote.id}`,
+    html: customerEmailTemplate,
+  }).catch((error) => {
+    console.error('Failed to send deposit receipt:', error);
+  });
+
+  const ownerEmail = process.env.OWNER_EMAIL;
+  if (!ownerEmail) {
+    console.warn('OWNER_EMAIL not set, skipping deposit notification');
+  }
+  const adminEmailPromise = ownerEmail
+    ? resend.emails.send({
+        from: 'onboarding@resend.dev',
+        to: ownerEmail,
+        subject: `Deposit Paid ${quote.id}: ${sanitizedAddress} - ${amountText}`,
+        text: `Deposit Paid\n\nQuote ID: ${quote.id}\nAddress: ${quote.input.address}\nCustomer Email: ${quote.input.customerEmail}\nAccepted: ${accepted ? `${accepted.name} ($${accepted.minPrice.toLocaleString()} - $${accepted.maxPrice.toLocaleString()})` : 'Unknown'}\n\nDeposit: ${amountText}\nPaid At: ${payment.paidAt}\nProvider: ${payment.provider}\nPayment Reference: ${payment.paymentId}`,
+      }).catch((error) => {
+        console.error('Failed to send deposit notification:', error);
+      })
+    : undefined;
+
+  await Promise.all([customerEmailPromise, adminEmailPromise]);
+}
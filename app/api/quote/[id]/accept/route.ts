@@ -0,0 +1,133 @@
+/**
+ * ============================================================================
+ * QUOTE ACCEPTANCE ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Records a customer's signed acceptance of a stored quote (from the
+ * /quote/[id] page) and notifies the owner.
+ *
+ * TRUST:
+ * The quote's access token is required, exactly as for viewing it. Prices
+ * come from the stored quote (quote-acceptance.ts); the request only names
+ * a package key. The client IP is taken from the proxy headers.
+ *
+ * RESPONSES:
+ * 200 → accepted; 400 → incomplete form or bad signature; 404 → unknown
+ * quote or wrong token; 409 → already accepted, terms changed, the quote
+ * expired and its price moved (reload, review and sign again), or its promo
+ * code ran out of uses.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { Resend } from 'resend';
+import { getPricingCatalog } from '@/app/lib/catalog-store';
+import { escapeHtml, getClientIp, isLocalhost } from '@/app/lib/http';
+import { SERVICE_LABELS, type PricingCatalog } from '@/app/lib/pricing';
+import {
+  acceptQuote,
+  AcceptanceError,
+  getAcceptanceErrorMessage,
+  type AcceptanceRequest,
+} from '@/app/lib/quote-acceptance';
+import { canAccessQuote, getQuote, type QuoteAcceptance, type StoredQuote } from '@/app/lib/quote-store';
+import { redis } from '@/app/lib/redis';
+
+interface QuoteAcceptanceBody extends AcceptanceRequest {
+  token: string;
+}
+
+// A signature takes a few tries at most; anything more is abuse
+const ratelimit = new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(10, '1 h'),
+  prefix: 'ratelimit:accept',
+});
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+// Rejections the customer can fix on the form vs. ones that need a reload
+const CONFLICT_ERRORS = new Set<AcceptanceError>([
+  AcceptanceError.ALREADY_ACCEPTED,
+  AcceptanceError.TERMS_CHANGED,
+  AcceptanceError.PRICE_CHANGED,
+  AcceptanceError.REPRICING_FAILED,
+  AcceptanceError.PROMO_LIMIT_REACHED,
+]);
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const clientIp = getClientIp(request);
+    if (!isLocalhost(clientIp)) {
+      const { success } = await ratelimit.limit(`accept_${clientIp}`);
+      if (!success) {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+    }
+
+    const { id } = await params;
+    const { token, ...acceptanceRequest } = (await request.json()) as QuoteAcceptanceBody;
+
+    const stored = await getQuote(id);
+    if (!stored || !canAccessQuote(stored, token)) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+    }
+
+    const catalog = await getPricingCatalog();
+    const result = await acceptQuote(
+      stored,
+      acceptanceRequest,
+      { ip: clientIp, userAgent: request.headers.get('user-agent') ?? 'unknown' },
+      catalog
+    );
+
+    if (result.error || !result.acceptance) {
+      const error = result.error ?? AcceptanceError.ALREADY_ACCEPTED;
+      return NextResponse.json(
+        { error: getAcceptanceErrorMessage(error), code: error },
+        { status: CONFLICT_ERRORS.has(error) ? 409 : 400 }
+      );
+    }
+
+    await sendAcceptanceNotification(result.quote, result.acceptance, catalog);
+
+    return NextResponse.json(
+      { quoteId: result.quote.id, acceptedAt: result.acceptance.acceptedAt, price: result.acceptance.price },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Quote acceptance error:', error);
+    return NextResponse.json({ error: 'Failed to accept quote' }, { status: 500 });
+  }
+}
+
+// OWNER NOTIFICATION: Everything needed to book the job, plus the signature evidence
+async function sendAcceptanceNotification(quote: StoredQuote, acceptance: QuoteAcceptance, catalog: PricingCatalog) {
+  const ownerEmail = process.env.OWNER_EMAIL;
+  if (!ownerEmail) {
+    console.warn('OWNER_EMAIL not set, skipping quote acceptance notification');
+    return;
+  }
+
+  const { price, signature } = acceptance;
+  const inclusions = price.services.map((key) => SERVICE_LABELS[key]).join(', ');
+  const addOnLabels = price.addOns.length > 0 ? price.addOns.map((key) => catalog.addOns[key].label).join(', ') : 'None';
+  const provisionalNote =
+    quote.status === 'pendingReview' || quote.routing.provisional
+      ? '\nPROVISIONAL: Travel was estimated—confirm the drive before booking.\n'
+      : '';
+  const signatureImage = signature.image?.split(',')[1];
+
+  await resend.emails.send({
+    from: 'onboarding@resend.dev',
+    to: ownerEmail,
+    subject: `Quote Accepted ${quote.id}: ${escapeHtml(acceptance.address)} - $${price.minPrice.toLocaleString()}-$${price.maxPrice.toLocaleString()}`,
+    text: `Quote Accepted\n${provisionalNote}\nQuote ID: ${quote.id}\nAddress (confirmed): ${acceptance.address}\nCustomer Email: ${quote.input.customerEmail}\nAccepted: ${price.name}\nServices: ${inclusions}\nAdd-ons: ${addOnLabels}\n\nPre-Tax Total: $${price.total.toFixed(2)}\nTax: $${price.taxTotal.toFixed(2)}\nAccepted Range (incl. tax): $${price.minPrice.toLocaleString()} - $${price.maxPrice.toLocaleString()}\nPricing Catalog: v${price.catalogVersion}\n\nSigned By: ${signature.name} (${signature.method === 'drawn' ? 'drawn signature attached' : 'typed'})\nSigned At: ${acceptance.acceptedAt}\nIP Address: ${acceptance.ip}\nUser Agent: ${acceptance.userAgent}\nTerms Version: ${acceptance.termsVersion}`,
+    attachments: signatureImage
+      ? [{ filename: `${quote.id}-signature.png`, content: Buffer.from(signatureImage, 'base64') }]
+      : undefined,
+  }).catch((error) => {
+    console.error('Failed to send quote acceptance email:', error);
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * ============================================================================
+ * BOOKING ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * GET  → open start times for the quote's job (availability.ts)
+ * POST → reserve one of them for a crew, then confirm by email
+ *
+ * TRUST:
+ * The quote's access token is required (query `token` for GET, body for
+ * POST). Job length and crew size come from the stored quote; the request
+ * only names a date and start time, which must be one we would offer.
+ * The quote must be accepted first, so the job is sized for what was signed.
+ * Provisional quotes wait for the owner (POST /api/admin/quotes/[id]/confirm).
+ *
+ * RESPONSES (POST):
+ * 200 → booked; 400 → not a bookable time; 404 → unknown quote or wrong
+ * token; 409 → already booked, quote expired, not accepted yet or awaiting
+ * owner review, or the time was just taken.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { Resend } from 'resend';
+import {
+  bookQuote,
+  BookingError,
+  findOpenSlots,
+  getArrivalWindowEnd,
+  getBookingErrorMessage,
+  getJobDuration,
+  type BookingSlot,
+} from '@/app/lib/availability';
+import type { ScheduleRules } from '@/app/lib/catalog';
+import { getPricingCatalog } from '@/app/lib/catalog-store';
+import { escapeHtml, getClientIp, isLocalhost } from '@/app/lib/http';
+import { canAccessQuote, getQuote, isQuoteExpired, type QuoteBooking, type StoredQuote } from '@/app/lib/quote-store';
+import { redis } from '@/app/lib/redis';
+
+interface BookingRequest extends Pick<BookingSlot, 'date' | 'start'> {
+  token: string;
+}
+
+// Browsing slots and booking attempts each get their own budget (keyed by action)
+const ratelimit = new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(30, '1 h'),
+  prefix: 'ratelimit:booking',
+});
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+async function isRateLimited(request: NextRequest, action: 'slots' | 'book'): Promise<boolean> {
+  const clientIp = getClientIp(request);
+  if (isLocalhost(clientIp)) return false;
+  const { success } = await ratelimit.limit(`${action}_${clientIp}`);
+  return !success;
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (await isRateLimited(request, 'slots')) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    const stored = await getQuote(id);
+    if (!stored || !canAccessQuote(stored, request.nextUrl.searchParams.get('token') ?? undefined)) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+    }
+    if (stored.booking) {
+      return NextResponse.json({ booking: stored.booking, slots: [] }, { status: 200 });
+    }
+    if (isQuoteExpired(stored)) {
+      return NextResponse.json({ error: getBookingErrorMessage(BookingError.QUOTE_EXPIRED) }, { status: 409 });
+    }
+    if (!stored.acceptance) {
+      return NextResponse.json({ error: getBookingErrorMessage(BookingError.NOT_ACCEPTED) }, { status: 409 });
+    }
+    if (stored.routing.provisional) {
+      return NextResponse.json({ error: getBookingErrorMessage(BookingError.PENDING_REVIEW) }, { status: 409 });
+    }
+
+    const { schedule } = await getPricingCatalog();
+    const slots = await findOpenSlots(getJobDuration(stored), schedule);
+    return NextResponse.json({ slots, timeZone: schedule.timeZone }, { status: 200 });
+  } catch (error) {
+    console.error('Booking slots error:', error);
+    return NextResponse.json({ error: 'Failed to load available times' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (await isRateLimited(request, 'book')) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    const { token, date, start } = (await request.json()) as BookingRequest;
+    if (typeof date !== 'string' || typeof start !== 'string') {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const stored = await getQuote(id);
+    if (!stored || !canAccessQuote(stored, token)) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+    }
+
+    const { schedule } = await getPricingCatalog();
+    const { booking, error } = await bookQuote(stored, { date, start }, schedule);
+    if (error || !booking) {
+      const bookingError = error ?? BookingError.SLOT_UNAVAILABLE;
+      return NextResponse.json(
+        { error: getBookingErrorMessage(bookingError), code: bookingError },
+        { status: bookingError === BookingError.INVALID_SLOT ? 400 : 409 }
+      );
+    }
+
+    await sendBookingEmails(stored, booking, schedule);
+    return NextResponse.json({ booking }, { status: 200 });
+  } catch (error) {
+    console.error('Booking error:', error);
+    return NextResponse.json({ error: 'Failed to book your time' }, { status: 500 });
+  }
+}
+
+// "2026-10-21" → "Wednesday, October 21, 2026" (date-only, so format in UTC)
+function formatBookingDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', { dateStyle: 'full', timeZone: 'UTC' });
+}
+
+// CONFIRMATION: Customer gets the time; the owner gets the crew assignment
+async function sendBookingEmails(quote: StoredQuote, booking: QuoteBooking, schedule: ScheduleRules) {
+  const when = `${formatBookingDate(booking.date)}, ${booking.start}–${booking.end}`;
+  const arrival = `between ${booking.start} and ${getArrivalWindowEnd(booking, schedule)}`;
+  const duration = getJobDuration(quote);
+  const sanitizedAddress = escapeHtml(quote.input.address);
+
+  const customerEmailPromise = resend.emails.send({
+    from: 'onboarding@resend.dev',
+    to: quote.input.customerEmail,
+    subject: `Booking Confirmed: ${formatBookingDate(booking.date)} (${quote.id})`,
+    html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #2d3a6b;">Your Service Is Booked</h2>
+      <p>Hi there,</p>
+      <p>We've reserved the following time for your service at:</p>
+      <p style="font-weight: bold; color: #2d3a6b; font-size: 16px;">${sanitizedAddress}</p>
+      <p style="font-size: 20px; color: #2d3a6b; font-weight: bold;">${when}</p>
+      <p style="color: #333;">Our crew will arrive ${arrival}. Estimated time on site: ${duration.onSiteHours} hours.</p>
+      <p style="color: #666; font-size: 14px; margin-top: 30px;">Need to change the time? Call us at (206) 619-7551 and mention ${quote.id}.</p>
+    </div>
+  `,
+  }).catch((error) => {
+    console.error('Failed to send booking confirmation:', error);
+  });
+
+  const ownerEmail = process.env.OWNER_EMAIL;
+  if (!ownerEmail) {
+    console.warn('OWNER_EMAIL not set, skipping booking notification');
+  }
+  const adminEmailPromise = ownerEmail
+    ? resend.emails.send({
+        from: 'onboarding@resend.dev',
+        to: ownerEmail,
+        subject: `Job Booked ${quote.id}: ${sanitizedAddress} - ${booking.date} ${booking.start} (${booking.crewName})`,
+        text: `Job Booked\n\nQuote ID: ${quote.id}\nAddress: ${quote.input.address}\nCustomer Email: ${quote.input.customerEmail}\nWhen: ${when} (${booking.timeZone}), arriving ${arrival}\nCrew: ${booking.crewName}\nEstimated Duration: ${duration.onSiteHours}h on site, crew of ${duration.crewSize} (${duration.totalHours}h with travel)\nQuoted Range (incl. tax): $${quote.quote.minPrice.toLocaleString()} - $${quote.quote.maxPrice.toLocaleString()}\nAccepted: ${quote.acceptance ? `Yes (${quote.acceptance.price.name})` : 'Not yet'}`,
+      }).catch((error) => {
+        console.error('Failed to send booking notification:', error);
+      })
+    : undefined;
+
+  await Promise.all([customerEmailPromise, adminEmailPromise]);
+}
@@ -0,0 +1,77 @@
+/**
+ * ============================================================================
+ * DEPOSIT CHECKOUT ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Starts a booking deposit checkout for an accepted quote and returns the
+ * payment provider's checkout URL for the browser to open.
+ *
+ * TRUST:
+ * The quote's access token is required. The amount is computed from the
+ * accepted price and the catalog's deposit policy, never from the request.
+ * The deposit is only marked paid by the payment webhook.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { getPricingCatalog } from '@/app/lib/catalog-store';
+import { startDepositCheckout, DepositError } from '@/app/lib/deposits';
+import { getClientIp, isLocalhost } from '@/app/lib/http';
+import { getPaymentProvider } from '@/app/lib/payment-providers';
+import { canAccessQuote, getQuote, getQuoteUrl } from '@/app/lib/quote-store';
+import { redis } from '@/app/lib/redis';
+
+interface DepositCheckoutRequest {
+  token: string;
+}
+
+// Each attempt opens a provider session; a handful covers cancel-and-retry
+const ratelimit = new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(10, '1 h'),
+  prefix: 'ratelimit:deposit',
+});
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({ error: 'Deposits are not enabled' }, { status: 404 });
+    }
+
+    const clientIp = getClientIp(request);
+    if (!isLocalhost(clientIp)) {
+      const { success } = await ratelimit.limit(`deposit_${clientIp}`);
+      if (!success) {
+        return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      }
+    }
+
+    const { id } = await params;
+    const { token } = (await request.json()) as DepositCheckoutRequest;
+
+    const stored = await getQuote(id);
+    if (!stored || !canAccessQuote(stored, token)) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+    }
+
+    const catalog = await getPricingCatalog();
+    const quoteUrl = getQuoteUrl(stored, process.env.SITE_URL || request.nextUrl.origin);
+    const { checkoutUrl, deposit, error } = await startDepositCheckout(stored, provider, catalog.pricePolicy, quoteUrl);
+
+    switch (error) {
+      case DepositError.NOT_ACCEPTED:
+        return NextResponse.json({ error: 'Please accept your quote first' }, { status: 409 });
+      case DepositError.ALREADY_PAID:
+        return NextResponse.json({ error: 'Your deposit has already been paid' }, { status: 409 });
+      case undefined:
+        return NextResponse.json({ checkoutUrl, amount: deposit?.amount }, { status: 200 });
+      default:
+        return NextResponse.json({ error: 'Payments are unavailable right now. Please try again later.' }, { status: 503 });
+    }
+  } catch (error) {
+    console.error('Deposit checkout error:', error);
+    return NextResponse.json({ error: 'Failed to start deposit payment' }, { status: 500 });
+  }
+}
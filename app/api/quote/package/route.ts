@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * PACKAGE SELECTION ENDPOINT
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Records which Good/Better/Best package the customer picked on the quote
+ * result screen, on the stored quote (`packageSelection`), and forwards the
+ * choice to the owner with the quote ID and link.
+ *
+ * TRUST:
+ * The quote's access token is required, and only the package key is
+ * accepted. The package must be one priced on the stored quote—its name,
+ * inclusions and price come from there, so a tampered request can't change
+ * what the owner sees.
+ *
+ * RESPONSES:
+ * 200 → recorded; 400 → missing fields or a package not priced on this
+ * quote; 404 → unknown quote or wrong token; 429 → rate limited.
+ * ============================================================================
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { Ratelimit } from '@upstash/ratelimit';
+import { Resend } from 'resend';
+import { getPricingCatalog } from '@/app/lib/catalog-store';
+import { escapeHtml, getClientIp, isLocalhost } from '@/app/lib/http';
+import { redis } from '@/app/lib/redis';
+import { SERVICE_LABELS } from '@/app/lib/pricing';
+import {
+  canAccessQuote,
+  getQuote,
+  getQuoteUrl,
+  updateQuote,
+  type QuotePackageSelection,
+} from '@/app/lib/quote-store';
+
+interface PackageSelectionRequest {
+  quoteId: string;
+  token: string;
+  packageKey: string;
+}
+
+// Customers may change their mind a few times, but not flood the owner's inbox
+const ratelimit = new Ratelimit({
+  redis,
+  limiter: Ratelimit.slidingWindow(10, '24 h'),
+  prefix: 'ratelimit:package',
+});
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+export async function POST(request: NextRequest) {
+  try {
+    // RATE LIMITING: Max 10 picks per customer per 24 hours
+    const clientIp = getClientIp(request);
+
+    let rateLimitHeaders = {
+      'X-RateLimit-Limit': '10',
+      'X-RateLimit-Remaining': '10',
+      'X-RateLimit-Reset': Date.now().toString(),
+    };
+
+    if (!isLocalhost(clientIp)) {
+      const { success, limit, remaining, reset } = await ratelimit.limit(`package_${clientIp}`);
+
+      rateLimitHeaders = {
+        'X-RateLimit-Limit': limit.toString(),
+        'X-RateLimit-Remaining': remaining.toString(),
+        'X-RateLimit-Reset': reset.toString(),
+      };
+
+      if (!success) {
+        return NextResponse.json(
+          {
+            error: 'Too many requests. Maximum 10 package choices per 24 hours allowed.',
+            retryAfter: Math.ceil((reset - Date.now()) / 1000),
+          },
+          { status: 429, headers: rateLimitHeaders }
+        );
+      }
+    }
+
+    const { quoteId, token, packageKey } = (await request.json()) as PackageSelectionRequest;
+
+    if (typeof quoteId !== 'string' || typeof packageKey !== 'string' || !quoteId || !packageKey) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    // Unknown IDs and wrong tokens look identical—an ID alone reveals nothing
+    const stored = await getQuote(quoteId);
+    if (!stored || !canAccessQuote(stored, token)) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404, headers: rateLimitHeaders }
+      );
+    }
+
+    const selected = stored.quote.packages.find((servicePackage) => servicePackage.key === packageKey);
+    if (!selected) {
+      return NextResponse.json(
+        { error: 'Unknown package' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    // A later pick replaces an earlier one—only the customer's latest choice matters
+    const packageSelection: QuotePackageSelection = {
+      packageKey: selected.key,
+      name: selected.name,
+      selectedAt: new Date().toISOString(),
+    };
+    await updateQuote(stored.id, { packageSelection });
+
+    const ownerEmail = process.env.OWNER_EMAIL;
+    if (!ownerEmail) {
+      console.warn('OWNER_EMAIL not set, skipping package selection notification');
+    } else {
+      const { addOns } = await getPricingCatalog();
+      const addOnLabels = selected.addOns.map((key) => addOns[key]?.label ?? key);
+      const inclusions = [...selected.services.map((key) => SERVICE_LABELS[key]), ...addOnLabels].join(', ');
+      const quoteUrl = getQuoteUrl(stored, process.env.SITE_URL || request.nextUrl.origin);
+
+      await resend.emails.send({
+        from: 'onboarding@resend.dev',
+        to: ownerEmail,
+        subject: `Package Selected ${stored.id}: ${escapeHtml(stored.input.address)} - ${selected.name}`,
+        text: `Package Selected\n\nQuote ID: ${stored.id}\nQuote Link: ${quoteUrl}\nAddress: ${stored.input.address}\nCustomer Email: ${stored.input.customerEmail}\nPackage: ${selected.name}\nIncludes: ${inclusions}\nPackage Range (incl. tax): $${selected.minPrice.toLocaleString()} - $${selected.maxPrice.toLocaleString()}\nPricing Catalog: v${stored.catalogVersion}`,
+      }).catch((error) => {
+        console.error('Failed to send package selection email:', error);
+      });
+    }
+
+    return NextResponse.json(
+      { packageKey: selected.key, name: selected.name },
+      { status: 200, headers: rateLimitHeaders }
+    );
+  } catch (error) {
+    console.error('Package selection error:', error);
+    return NextResponse.json({ error: 'Failed to record package selection' }, { status: 500 });
+  }
+}
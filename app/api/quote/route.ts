@@ -10,10 +10,16 @@
  * FLOW:
  * 1. Rate Limiting → Prevent quote request abuse (5 per customer per 24h)
  * 2. Input Validation → Reject malformed requests early
- * 3. Geospatial Routing → Call Distance Matrix, validate service area
- * 4. Risk Pricing → Apply material multiplier to base rate
- * 5. Response → Return itemized breakdown with routing details
- * 6. Notifications → Async email to admin + customer
+ * 3. Pricing Catalog → Load the live, versioned rate sheet
+ * 4. Geospatial Routing → Call Distance Matrix, validate service area
+ *    (provider down → provisional estimate from coordinates, queued for review)
+ * 5. Risk Pricing → Apply material multiplier to base rate, promo discount, sales tax
+ * 6. Persistence → Store the quote in Redis under a quote ID (quote-store.ts)
+ * 7. Response → Return quote ID and itemized breakdown stamped with catalog version,
+ *    plus the job duration estimate (crew size, on-site hours)
+ *    (pricing trace included only for admin requests—see isAdminRequest)
+ * 8. Notifications → Async email to admin + customer (both print the quote ID)
+ *    (admin email carries the job cost/margin estimate—see job-cost.ts)
  *
  * SECURITY:
  * • Rate limiting protects backend from flood attacks
@@ -25,35 +31,63 @@
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { Ratelimit } from '@upstash/ratelimit';
-import { Redis } from '@upstash/redis';
 import { Resend } from 'resend';
+import { getPricingCatalog } from '@/app/lib/catalog-store';
+import { findPromotion, getPromoErrorMessage, PromoError } from '@/app/lib/discounts';
+import { hasPromoUsesLeft } from '@/app/lib/promo-usage';
+import { isTaxExemptCustomer } from '@/app/lib/tax-exemptions';
+import { queueForOwnerReview } from '@/app/lib/review-queue';
+import { getQuoteUrl, saveQuote } from '@/app/lib/quote-store';
+import { getRoutingProvider } from '@/app/lib/routing-providers';
+import { withRoutingCache } from '@/app/lib/routing-cache';
+import { estimateJobCost, type JobCostEstimate } from '@/app/lib/job-cost';
+import { estimateJobDuration, type JobDuration } from '@/app/lib/duration';
+import { redis } from '@/app/lib/redis';
+import { isValidCoordinates } from '@/app/lib/geo';
+import { escapeHtml, getClientIp, isAdminRequest, isLocalhost, isValidEmail } from '@/app/lib/http';
 import {
+  calculateProvisionalRouting,
   calculateRouting,
   calculateQuoteWithMaterial,
+  detectProvince,
+  findMaterial,
+  getAppliedPromoCode,
+  parseCondition,
+  parseServices,
   RoutingError,
+  SERVICE_LABELS,
+  TECHNIQUE_LABELS,
+  type AddOnSizes,
+  type PackageQuote,
+  type PricingTraceStep,
+  type PropertyCondition,
+  type QuoteBreakdown,
+  type ServiceKey,
+  type WindowCounts,
 } from '@/app/lib/pricing';
 
 interface QuoteRequest {
+  services?: ServiceKey[]; // Defaults to house wash only
   address: string;
   stories: number;
   squareFeet: number;
   material?: string; // New: material type for risk-based pricing
+  condition?: Partial<PropertyCondition>; // Algae, years since wash, oxidation, obstacles
   addOns: {
     driveway: boolean;
     gutters: boolean;
     deckPatio: boolean;
   };
+  addOnSizes?: Partial<AddOnSizes>; // Driveway/deck area and gutter length
+  windows?: Partial<WindowCounts>;   // Window cleaning pane counts
+  gutterLinearFt?: number;           // Gutter cleaning footage
+  promoCode?: string;                // Optional promotion / flyer code
   lat: number;
   lng: number;
   email: string;
 }
 
-// Initialize Redis and Rate Limiter
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
-
+// Initialize Rate Limiter
 const ratelimit = new Ratelimit({
   redis,
   limiter: Ratelimit.slidingWindow(5, '24 h'), // 5 requests per 24 hours
@@ -63,38 +97,27 @@ const ratelimit = new Ratelimit({
 // Initialize Resend
 const resend = new Resend(process.env.RESEND_API_KEY);
 
-// UTILITY: Extract client IP for rate limiting (respects proxy headers)
-function getClientIp(request: NextRequest): string {
-  const forwardedFor = request.headers.get('x-forwarded-for');
-  if (forwardedFor) {
-    return forwardedFor.split(',')[0].trim();
-  }
-  return request.headers.get('x-real-ip') || '127.0.0.1';
-}
-
-// VALIDATION: RFC 5321 email format check
-function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email) && email.length <= 254;
+// FORMATTING: 0.09975 → "9.975%", 0.05 → "5%"
+function formatTaxRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(3))}%`;
 }
 
-// SECURITY: HTML entity encoding prevents XSS in email templates
-function escapeHtml(text: string): string {
-  const map: { [key: string]: string } = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#039;',
-  };
-  return text.replace(/[&<>"']/g, (char) => map[char]);
+// FORMATTING: "3. Material multiplier (material=brick, multiplier=1.1) → $550.00"
+function formatTraceLines(trace: PricingTraceStep[]): string {
+  return trace
+    .map((step, index) => {
+      const inputs = Object.entries(step.inputs)
+        .map(([name, value]) => `${name}=${value}`)
+        .join(', ');
+      return `\n${index + 1}. ${step.rule} (${inputs}) → $${step.output.toFixed(2)}`;
+    })
+    .join('');
 }
 
 export async function POST(request: NextRequest) {
   try {
     // RATE LIMITING: Prevent abuse—max 5 requests per customer per 24 hours
     const clientIp = getClientIp(request);
-    const isLocalhost = clientIp === '127.0.0.1' || clientIp === '::1';
 
     let rateLimitHeaders = {
       'X-RateLimit-Limit': '5',
@@ -102,7 +125,7 @@ export async function POST(request: NextRequest) {
       'X-RateLimit-Reset': Date.now().toString(),
     };
 
-    if (!isLocalhost) {
+    if (!isLocalhost(clientIp)) {
       const { success, limit, remaining, reset } = await ratelimit.limit(
         `quote_${clientIp}`
       );
@@ -128,19 +151,50 @@ export async function POST(request: NextRequest) {
     }
 
     const body = (await request.json()) as QuoteRequest;
-    const { address, stories, squareFeet, material = 'vinyl', addOns, lat, lng, email } = body;
+    const {
+      address,
+      stories,
+      squareFeet,
+      material = 'vinyl',
+      addOns,
+      addOnSizes,
+      windows,
+      gutterLinearFt,
+      lat,
+      lng,
+      email,
+    } = body;
+    const services = parseServices(body.services);
+    const condition = parseCondition(body.condition);
+    const promoCode = typeof body.promoCode === 'string' ? body.promoCode.trim().toUpperCase() : '';
 
     // INPUT VALIDATION: Reject incomplete requests immediately
-    if (!address || !stories || !lat || !lng || !email || squareFeet === undefined) {
+    if (!address || !stories || lat === undefined || lng === undefined || !email || squareFeet === undefined) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400, headers: rateLimitHeaders }
       );
     }
 
+    // Coordinates reach routing and the cache key as numbers—reject anything else here
+    if (!isValidCoordinates({ lat, lng })) {
+      return NextResponse.json(
+        { error: 'Invalid coordinates' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    if (services.length === 0) {
+      return NextResponse.json(
+        { error: 'Please select at least one service' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
     // BUSINESS RULE: Estate properties (4500+ sq ft) require manual quoting
     // Rationale: Complexity and custom requirements prevent accurate automation
-    if (squareFeet >= 4500) {
+    // Window/gutter-only jobs don't depend on wall area, so they stay automated
+    if (services.includes('houseWash') && squareFeet >= 4500) {
       sendEstateNotification(address, email, stories, squareFeet, addOns).catch(
         (error) => console.error('Estate notification failed:', error)
       );
@@ -159,17 +213,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // GEOSPATIAL ROUTING: Validate service area and calculate travel surcharge
-    const googleMapsKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
-    if (!googleMapsKey) {
-      console.error('Google Maps API key not configured');
+    // INPUT VALIDATION: Material comes straight from the body—only a string can be looked up
+    if (typeof material !== 'string') {
       return NextResponse.json(
-        { error: 'Routing service unavailable. Please try again later.' },
-        { status: 503, headers: rateLimitHeaders }
+        { error: 'Invalid material' },
+        { status: 400, headers: rateLimitHeaders }
+      );
+    }
+
+    // PRICING CATALOG: Same catalog version prices routing and the quote
+    const catalog = await getPricingCatalog();
+
+    // BUSINESS RULE: Delicate or variable sidings (stone veneer, wood shake, mixed)
+    // are flagged for manual review in the catalog—the owner assesses on site
+    const materialRate = findMaterial(material, catalog);
+    if (services.includes('houseWash') && materialRate?.manualReview) {
+      sendManualReviewNotification(address, email, stories, squareFeet, materialRate.label).catch(
+        (error) => console.error('Manual review notification failed:', error)
+      );
+
+      return NextResponse.json(
+        { manualReview: true, material: materialRate.label, message: 'Manual Review Required' },
+        { status: 200, headers: rateLimitHeaders }
       );
     }
 
-    const routingResult = await calculateRouting(address, googleMapsKey);
+    // GEOSPATIAL ROUTING: Validate service area and calculate travel surcharge
+    // (provider chosen by ROUTING_PROVIDER—see routing-providers.ts; results cached in Redis)
+    let routingResult = await calculateRouting(address, catalog, { lat, lng }, withRoutingCache(getRoutingProvider()));
+
+    // DEGRADED MODE: Never price a provider failure as a local job—estimate
+    // travel from the coordinates and flag the quote provisional
+    if (routingResult.error === RoutingError.API_ERROR) {
+      console.warn('Routing provider failed, estimating travel from coordinates:', address);
+      routingResult = await calculateProvisionalRouting(address, catalog, { lat, lng });
+    }
+    const provisional = Boolean(routingResult.provisional);
 
     // GUARDRAIL: Reject jobs outside profitable service area
     if (!routingResult.isValid) {
@@ -177,8 +256,11 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(
           {
             error: 'Outside service area',
-            message: `Your location is ${Math.round(routingResult.distance)}km away. We currently serve within 45km of Langley, BC.`,
+            message: routingResult.zone
+              ? `Your location is in ${routingResult.zone}, which we don't currently serve.`
+              : `Your location is ${Math.round(routingResult.distance)}km away. We currently serve within ${catalog.routing.maxServiceDistanceKm}km of Langley, BC.`,
             distance: Math.round(routingResult.distance),
+            zone: routingResult.zone,
           },
           { status: 400, headers: rateLimitHeaders }
         );
@@ -187,41 +269,146 @@ export async function POST(request: NextRequest) {
           { error: 'Invalid address. Please verify your location.' },
           { status: 400, headers: rateLimitHeaders }
         );
+      } else if (routingResult.error === RoutingError.API_ERROR) {
+        return NextResponse.json(
+          { error: 'Routing service unavailable. Please try again later.' },
+          { status: 503, headers: rateLimitHeaders }
+        );
       }
     }
 
-    // RISK-ADJUSTED PRICING: Apply material multiplier to base rate
-    const quoteBreakdown = calculateQuoteWithMaterial(
+    // RISK-ADJUSTED PRICING: Apply material multiplier to base rate, price services & add-ons
+    const quoteInput = {
+      services,
       stories,
-      material,
-      routingResult.travelSurcharge
-    );
+      squareFeet,
+      material: materialRate?.material ?? material,
+      condition,
+      travelSurcharge: routingResult.travelSurcharge,
+      windows,
+      gutterLinearFt,
+      addOns,
+      addOnSizes,
+      province: detectProvince(address),
+      taxExempt: await isTaxExemptCustomer(email),
+    };
+    const promotion = promoCode ? findPromotion(promoCode, catalog) : undefined;
+    let quoteBreakdown = calculateQuoteWithMaterial({ ...quoteInput, promotion }, catalog);
+    let promoError = promoCode && !promotion ? PromoError.INVALID_CODE : quoteBreakdown.promoError;
+
+    // USAGE CAP: Checked here, counted on acceptance; re-price without it if capped
+    if (promotion && getAppliedPromoCode(quoteBreakdown) && !(await hasPromoUsesLeft(promotion))) {
+      quoteBreakdown = calculateQuoteWithMaterial(quoteInput, catalog);
+      promoError = PromoError.USAGE_LIMIT_REACHED;
+    }
 
-    const { minPrice, maxPrice, breakdown } = quoteBreakdown;
+    const { minPrice, maxPrice, breakdown, packages, catalogVersion, trace } = quoteBreakdown;
+    const promo = promoCode
+      ? {
+          code: promoCode,
+          applied: Boolean(breakdown.discount),
+          message: promoError ? getPromoErrorMessage(promoError, promotion) : undefined,
+        }
+      : undefined;
+
+    // SCHEDULING & JOB COSTING: Duration is shared with the customer; margin is owner-only
+    const jobInput = {
+      quote: quoteBreakdown,
+      squareFeet,
+      stories,
+      distanceKm: routingResult.distance,
+      driveMinutes: routingResult.durationMinutes,
+    };
+    const duration = estimateJobDuration(jobInput, catalog);
+    const jobCost = estimateJobCost(jobInput, catalog, duration);
+
+    // PERSISTENCE: Keep the lead even if every email bounces
+    const storedQuote = await saveQuote({
+      status: provisional ? 'pendingReview' : 'quoted',
+      catalogVersion,
+      input: {
+        ...quoteInput,
+        address,
+        customerEmail: email,
+        location: { lat, lng },
+        promoCode: promoCode || undefined,
+        appliedPromoCode: getAppliedPromoCode(quoteBreakdown), // Re-pricing only re-offers this one
+      },
+      routing: routingResult,
+      quote: quoteBreakdown,
+      duration,
+    }, catalog.pricePolicy.quoteValidityDays);
+    const quoteId = storedQuote?.id;
+    const quoteUrl = storedQuote
+      ? getQuoteUrl(storedQuote, process.env.SITE_URL || request.nextUrl.origin)
+      : undefined;
+
+    // OWNER REVIEW: Provisional quotes wait for the owner to confirm travel
+    if (provisional) {
+      await queueForOwnerReview({
+        reason: 'provisional-routing',
+        quoteId,
+        address,
+        customerEmail: email,
+        minPrice,
+        maxPrice,
+        distance: routingResult.distance,
+        catalogVersion,
+        queuedAt: new Date().toISOString(),
+      });
+    }
 
     // ASYNC NOTIFICATIONS: Send itemized emails (non-blocking)
-    sendEmails(
+    sendEmails({
+      quoteId,
+      quoteUrl,
+      expiresAt: storedQuote?.expiresAt,
       address,
-      email,
+      customerEmail: email,
+      services,
       minPrice,
       maxPrice,
       stories,
-      addOns,
-      material,
+      squareFeet,
+      material: materialRate?.label ?? material,
+      technique: TECHNIQUE_LABELS[quoteBreakdown.technique],
       breakdown,
-      routingResult.distance
-    ).catch((error) => console.error('Email sending failed:', error));
+      packages,
+      trace,
+      duration,
+      jobCost,
+      distance: routingResult.distance,
+      zone: routingResult.zone,
+      depot: routingResult.depot,
+      provisional,
+      catalogVersion,
+    }).catch((error) => console.error('Email sending failed:', error));
 
     return NextResponse.json(
       {
+        quoteId,
+        quoteUrl,
+        accessToken: storedQuote?.accessToken, // Lets the result screen record a package pick
         minPrice,
         maxPrice,
+        services,
         breakdown,
+        technique: quoteBreakdown.technique,
+        duration,
+        packages,
+        promo,
+        catalogVersion,
+        provisional,
         routing: {
           distance: Math.round(routingResult.distance),
           duration: routingResult.duration,
           travelSurcharge: routingResult.travelSurcharge,
+          zone: routingResult.zone,
+          depot: routingResult.depot,
+          provisional,
         },
+        // AUDIT: Rule-by-rule trace stays internal unless the owner asks for it
+        trace: isAdminRequest(request) ? trace : undefined,
       },
       { status: 200, headers: rateLimitHeaders }
     );
@@ -234,18 +421,57 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Everything the lead notifications need to itemize a quote
+interface QuoteEmailDetails {
+  quoteId?: string;   // Missing only if the quote could not be stored
+  quoteUrl?: string;  // Customer's tokenized /quote/[id] link
+  expiresAt?: string; // When the quoted price lapses
+  address: string;
+  customerEmail: string;
+  services: ServiceKey[];
+  minPrice: number;
+  maxPrice: number;
+  stories: number;
+  squareFeet: number;
+  material: string;  // Catalog label, e.g. "Hardie Board"
+  technique: string; // e.g. "Soft Wash"
+  breakdown: QuoteBreakdown['breakdown'];
+  packages: PackageQuote[];
+  trace: PricingTraceStep[]; // Every pricing rule applied, for disputes
+  duration: JobDuration;
+  jobCost: JobCostEstimate;  // Owner-only cost and margin estimate
+  distance: number;
+  zone?: string;
+  depot?: string;
+  provisional: boolean; // Travel estimated offline—owner must confirm
+  catalogVersion: number;
+}
+
 // Helper function to send emails
-async function sendEmails(
-  address: string,
-  customerEmail: string,
-  minPrice: number,
-  maxPrice: number,
-  stories: number,
-  addOns: { driveway: boolean; gutters: boolean; deckPatio: boolean },
-  material: string,
-  breakdown: { basePrice: number; materialSurcharge: number; travelSurcharge: number },
-  distance: number
-) {
+async function sendEmails({
+  quoteId,
+  quoteUrl,
+  expiresAt,
+  address,
+  customerEmail,
+  services,
+  minPrice,
+  maxPrice,
+  stories,
+  squareFeet,
+  material,
+  technique,
+  breakdown,
+  packages,
+  trace,
+  duration,
+  jobCost,
+  distance,
+  zone,
+  depot,
+  provisional,
+  catalogVersion,
+}: QuoteEmailDetails) {
   const ownerEmail = process.env.OWNER_EMAIL;
 
   if (!ownerEmail) {
@@ -253,13 +479,49 @@ async function sendEmails(
     return;
   }
 
-  // Build add-ons list
-  const selectedAddOns = [];
-  if (addOns.driveway) selectedAddOns.push('Driveway Cleaning');
-  if (addOns.gutters) selectedAddOns.push('Gutter Cleaning');
-  if (addOns.deckPatio) selectedAddOns.push('Deck/Patio Cleaning');
+  // Build add-ons list (priced line items include their measured size)
+  const selectedAddOns = breakdown.addOns.map(
+    (item) => `${item.label} (${item.quantity.toLocaleString()} ${item.unit})`
+  );
   const addOnsText =
     selectedAddOns.length > 0 ? selectedAddOns.join(', ') : 'None';
+  const addOnsLines = breakdown.addOns
+    .map((item) => `\n- ${item.label} (${item.quantity.toLocaleString()} ${item.unit}): $${item.price.toFixed(2)}`)
+    .join('');
+
+  // Build services list (window/gutter line items carry their own sizing detail)
+  const includesWash = services.includes('houseWash');
+  const servicesText = services.map((key) => SERVICE_LABELS[key]).join(', ');
+  const serviceLines = breakdown.services
+    .map((item) => `\n- ${item.label} (${item.detail}): $${item.price.toFixed(2)}`)
+    .join('');
+  const discountLine = breakdown.discount
+    ? `\n- Discount (${breakdown.discount.code}): -$${breakdown.discount.amount.toFixed(2)}`
+    : '';
+  const taxLines = breakdown.taxes
+    .map((tax) => `\n- ${tax.name} (${formatTaxRate(tax.rate)}): $${tax.amount.toFixed(2)}`)
+    .join('');
+  const taxExemptNote = breakdown.taxes.length === 0 ? '\n- Tax: exempt' : '';
+  const minimumChargeLine = breakdown.minimumChargeAdjustment > 0
+    ? `\n- Minimum Job Charge Adjustment: $${breakdown.minimumChargeAdjustment.toFixed(2)}`
+    : '';
+  const conditionLine = breakdown.condition
+    ? `\n- Condition Adjustment (${breakdown.condition.factors.join(', ')}; ×${breakdown.condition.multiplier}): $${breakdown.condition.amount.toFixed(2)}`
+    : '';
+  const washLines = includesWash
+    ? `\n- Base Price: $${breakdown.basePrice}\n- Material Surcharge: $${breakdown.materialSurcharge.toFixed(2)}${conditionLine}`
+    : '';
+  const packagesText = packages.length > 0
+    ? `\n\nPackages Offered:${packages
+        .map((option) => `\n- ${option.name}: $${option.minPrice.toLocaleString()} - $${option.maxPrice.toLocaleString()}`)
+        .join('')}\n(The customer may pick one—you'll get a separate "Package Selected" email.)`
+    : '';
+  const jobCostText = `\n\nEstimated Job Cost:\n- Labour: $${jobCost.labour.toFixed(2)} (${jobCost.onSiteHours} on-site + ${jobCost.driveHours} driving person-hours)\n- Chemicals: $${jobCost.chemicals.toFixed(2)}\n- Vehicle: $${jobCost.vehicle.toFixed(2)}\n- Total Cost: $${jobCost.total.toFixed(2)}\n- Estimated Margin: $${jobCost.margin.toFixed(2)} (${Math.round(jobCost.marginRate * 100)}% of $${jobCost.revenue.toFixed(2)} pre-tax)${
+    jobCost.belowMinimumMargin ? '\nLOW MARGIN: Below the configured minimum margin—review before booking.' : ''
+  }`;
+  const provisionalNote = provisional
+    ? '\nPROVISIONAL: The routing service was unavailable, so travel was estimated from straight-line distance. Confirm the drive before booking—this quote is in the review queue.\n'
+    : '';
 
   // SECURITY: HTML entity encoding prevents XSS attacks in email templates
   const sanitizedAddress = escapeHtml(address);
@@ -269,8 +531,8 @@ async function sendEmails(
   const adminEmailPromise = resend.emails.send({
     from: 'onboarding@resend.dev',
     to: ownerEmail,
-    subject: `New Lead: ${sanitizedAddress} - $${minPrice.toLocaleString()}-$${maxPrice.toLocaleString()} (${Math.round(distance)}km)`,
-    text: `New Quote Request\n\nAddress: ${address}\nDistance: ${Math.round(distance)}km\nStories: ${stories}\nMaterial: ${material}\nAdd-ons: ${addOnsText}\n\nPrice Breakdown:\n- Base Price: $${breakdown.basePrice}\n- Material Surcharge: $${breakdown.materialSurcharge.toFixed(2)}\n- Travel Surcharge: $${breakdown.travelSurcharge.toFixed(2)}\n\nEstimated Range: $${minPrice.toLocaleString()} - $${maxPrice.toLocaleString()}\nCustomer Email: ${customerEmail}`,
+    subject: `${provisional ? '[PROVISIONAL] ' : ''}${jobCost.belowMinimumMargin ? '[LOW MARGIN] ' : ''}New Lead${quoteId ? ` ${quoteId}` : ''}: ${sanitizedAddress} - $${minPrice.toLocaleString()}-$${maxPrice.toLocaleString()} (${Math.round(distance)}km)`,
+    text: `New Quote Request\n${provisionalNote}\nQuote ID: ${quoteId ?? 'not stored—see the details below'}\nServices: ${servicesText}\nAddress: ${address}\nDistance: ${Math.round(distance)}km${provisional ? ' (estimated)' : ''}${zone ? ` (zone: ${zone})` : ''}\nDispatch Depot: ${depot ?? 'Unknown'}\nSquare Footage: ${squareFeet.toLocaleString()} sq ft\nStories: ${stories}\nMaterial: ${material} (${technique})\nAdd-ons: ${addOnsText}\nEstimated Duration: ${duration.onSiteHours}h on site, crew of ${duration.crewSize} (${duration.totalHours}h with travel)\n\nPrice Breakdown:${washLines}${serviceLines}${addOnsLines}${discountLine}\n- Travel Surcharge: $${breakdown.travelSurcharge.toFixed(2)}${minimumChargeLine}${taxLines}${taxExemptNote}\n\nEstimated Range (incl. tax): $${minPrice.toLocaleString()} - $${maxPrice.toLocaleString()}${jobCostText}${packagesText}\nCustomer Email: ${customerEmail}\nPricing Catalog: v${catalogVersion}\n\nPricing Trace:${formatTraceLines(trace)}`,
   }).catch((error) => {
     console.error('Failed to send admin email:', error);
   });
@@ -282,37 +544,91 @@ async function sendEmails(
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
       <h2 style="color: #2d3a6b;">We've Received Your Quote Request</h2>
       <p>Hi there,</p>
-      <p>Thanks for requesting a quote for pressure washing at:</p>
+      <p>Thanks for requesting a quote for ${escapeHtml(servicesText.toLowerCase())} at:</p>
       <p style="font-weight: bold; color: #2d3a6b; font-size: 16px;">${sanitizedAddress}</p>
+      ${quoteId ? `<p style="color: #333;">Quote reference: <strong>${quoteId}</strong> (mention it when you contact us)</p>` : ''}
+      ${quoteUrl ? `
+      <p style="margin: 20px 0;"><a href="${escapeHtml(quoteUrl)}" style="background: #2d3a6b; color: #ffffff; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold;">View &amp; Accept Your Quote</a></p>
+      ${expiresAt ? `<p style="color: #666; font-size: 14px;">This price is valid until ${new Date(expiresAt).toLocaleDateString('en-CA', { dateStyle: 'long' })}.</p>` : ''}
+      ` : ''}
       
-      <h3 style="color: #2d3a6b; margin-top: 30px;">Your Estimated Price</h3>
+      <h3 style="color: #2d3a6b; margin-top: 30px;">Your Estimated Price (incl. tax)</h3>
       <p style="font-size: 24px; color: #2d3a6b; font-weight: bold;">$${minPrice.toLocaleString()} - $${maxPrice.toLocaleString()}</p>
+      ${provisional ? `
+      <p style="background: #fff8e1; color: #8a6d00; padding: 12px; border-radius: 8px;">This is a provisional estimate: we couldn't confirm the driving distance to your property, so the travel cost may change. We'll confirm it when we review your quote.</p>
+      ` : ''}
       
       <h3 style="color: #2d3a6b; margin-top: 30px;">Price Breakdown</h3>
       <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+        ${includesWash ? `
         <tr style="border-bottom: 1px solid #e0e0e0;">
-          <td style="padding: 10px 0; color: #333;">Base Service (${stories} story/stories)</td>
+          <td style="padding: 10px 0; color: #333;">Base Service (${squareFeet.toLocaleString()} sq ft, ${stories} story/stories)</td>
           <td style="padding: 10px 0; color: #333; text-align: right;">$${breakdown.basePrice.toFixed(2)}</td>
         </tr>
+        ` : ''}
         ${breakdown.materialSurcharge > 0 ? `
         <tr style="border-bottom: 1px solid #e0e0e0;">
-          <td style="padding: 10px 0; color: #333;">${material.charAt(0).toUpperCase() + material.slice(1)} Material Surcharge</td>
+          <td style="padding: 10px 0; color: #333;">${escapeHtml(material)} Material Surcharge</td>
           <td style="padding: 10px 0; color: #333; text-align: right;">$${breakdown.materialSurcharge.toFixed(2)}</td>
         </tr>
         ` : ''}
+        ${breakdown.condition ? `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Property Condition (${escapeHtml(breakdown.condition.factors.join(', '))})</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">$${breakdown.condition.amount.toFixed(2)}</td>
+        </tr>
+        ` : ''}
+        ${breakdown.services.map((item) => `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">${item.label} (${item.detail})</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">$${item.price.toFixed(2)}</td>
+        </tr>
+        `).join('')}
+        ${breakdown.addOns.map((item) => `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">${item.label} (${item.quantity.toLocaleString()} ${item.unit})</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">$${item.price.toFixed(2)}</td>
+        </tr>
+        `).join('')}
+        ${breakdown.discount ? `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #2e7d32;">${escapeHtml(breakdown.discount.label)} (${escapeHtml(breakdown.discount.code)})</td>
+          <td style="padding: 10px 0; color: #2e7d32; text-align: right;">-$${breakdown.discount.amount.toFixed(2)}</td>
+        </tr>
+        ` : ''}
         ${breakdown.travelSurcharge > 0 ? `
         <tr style="border-bottom: 1px solid #e0e0e0;">
           <td style="padding: 10px 0; color: #333;">Travel Surcharge (${Math.round(distance)}km)</td>
           <td style="padding: 10px 0; color: #333; text-align: right;">$${breakdown.travelSurcharge.toFixed(2)}</td>
         </tr>
         ` : ''}
+        ${breakdown.minimumChargeAdjustment > 0 ? `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Minimum Job Charge Adjustment</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">$${breakdown.minimumChargeAdjustment.toFixed(2)}</td>
+        </tr>
+        ` : ''}
+        ${breakdown.taxes.map((tax) => `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">${tax.name} (${formatTaxRate(tax.rate)})</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">$${tax.amount.toFixed(2)}</td>
+        </tr>
+        `).join('')}
+        ${breakdown.taxes.length === 0 ? `
+        <tr style="border-bottom: 1px solid #e0e0e0;">
+          <td style="padding: 10px 0; color: #333;">Sales Tax (exempt)</td>
+          <td style="padding: 10px 0; color: #333; text-align: right;">$0.00</td>
+        </tr>
+        ` : ''}
       </table>
       
       <h3 style="color: #2d3a6b; margin-top: 30px;">Details</h3>
       <ul style="line-height: 1.8; color: #333;">
+        <li><strong>Services:</strong> ${servicesText}</li>
+        <li><strong>Square Footage:</strong> ${squareFeet.toLocaleString()} sq ft</li>
         <li><strong>Stories:</strong> ${stories}</li>
-        <li><strong>Material:</strong> ${material.charAt(0).toUpperCase() + material.slice(1)}</li>
-        <li><strong>Distance:</strong> ${Math.round(distance)}km</li>
+        <li><strong>Material:</strong> ${escapeHtml(material)} (${technique})</li>
+        <li><strong>Distance:</strong> ${Math.round(distance)}km${provisional ? ' (estimated)' : ''}</li>
         <li><strong>Add-ons:</strong> ${addOnsText}</li>
       </ul>
 
@@ -320,7 +636,8 @@ async function sendEmails(
       
       <p style="color: #333;">Best regards,<br><strong>The Water Boys Team</strong></p>
       <p style="color: #999; font-size: 12px; margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px;">
-        This is an automated message. Please don't reply to this email.
+        This is an automated message. Please don't reply to this email.<br>
+        Pricing catalog v${catalogVersion}
       </p>
     </div>
   `;
@@ -328,7 +645,7 @@ async function sendEmails(
   const customerEmailPromise = resend.emails.send({
     from: 'onboarding@resend.dev',
     to: customerEmail,
-    subject: `Your Quote from Water Boys Pressure Washing`,
+    subject: `Your Quote from Water Boys Pressure Washing${quoteId ? ` (${quoteId})` : ''}`,
     html: customerEmailTemplate,
   }).catch((error) => {
     console.error('Failed to send customer email:', error);
@@ -407,3 +724,63 @@ async function sendEstateNotification(
   // Both emails sent concurrently, failures logged but don't impact API response
   await Promise.all([adminEmailPromise, customerEmailPromise]);
 }
+
+// Helper function to send manual review notifications (materials flagged in the catalog)
+async function sendManualReviewNotification(
+  address: string,
+  customerEmail: string,
+  stories: number,
+  squareFeet: number,
+  materialLabel: string
+) {
+  const ownerEmail = process.env.OWNER_EMAIL;
+
+  if (!ownerEmail) {
+    console.warn('OWNER_EMAIL not set, skipping manual review notification');
+    return;
+  }
+
+  // SECURITY: HTML entity encoding prevents XSS attacks in email templates
+  const sanitizedAddress = escapeHtml(address);
+
+  // MANUAL REVIEW: Material can't be priced safely without seeing it
+  // Owner confirms technique and rate after a site visit or photos
+  const adminEmailPromise = resend.emails.send({
+    from: 'onboarding@resend.dev',
+    to: ownerEmail,
+    subject: `🔍 MANUAL REVIEW: ${sanitizedAddress} (${materialLabel})`,
+    text: `Manual Review Request\n\nAddress: ${address}\nMaterial: ${materialLabel}\nSquare Footage: ${squareFeet.toLocaleString()} sq ft\nStories: ${stories}\nCustomer Email: ${customerEmail}\n\nThis siding material is flagged for manual review in the pricing catalog. Contact the customer to assess the surface and provide a custom rate.`,
+  }).catch((error) => {
+    console.error('Failed to send manual review admin email:', error);
+  });
+
+  const customerEmailTemplate = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #2d3a6b;">We'll Take a Closer Look</h2>
+      <p>Hi there,</p>
+      <p>Thanks for requesting a quote for your property at:</p>
+      <p style="font-weight: bold; color: #2d3a6b; font-size: 16px;">${sanitizedAddress}</p>
+
+      <p style="color: #333; margin-top: 20px;">${escapeHtml(materialLabel)} siding varies a lot from home to home, so we price it by hand to make sure we use the right technique and protect the surface.</p>
+
+      <h3 style="color: #2d3a6b; margin-top: 30px;">What Happens Next</h3>
+      <p style="color: #333;"><strong>Mark (Owner) will contact you</strong> to go over your siding and provide a custom rate.</p>
+
+      <p style="color: #333; margin-top: 30px;">Best regards,<br><strong>The Water Boys Team</strong></p>
+      <p style="color: #999; font-size: 12px; margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px;">
+        This is an automated message. Please don't reply to this email.
+      </p>
+    </div>
+  `;
+
+  const customerEmailPromise = resend.emails.send({
+    from: 'onboarding@resend.dev',
+    to: customerEmail,
+    subject: `Your Quote Request - ${sanitizedAddress}`,
+    html: customerEmailTemplate,
+  }).catch((error) => {
+    console.error('Failed to send manual review customer email:', error);
+  });
+
+  await Promise.all([adminEmailPromise, customerEmailPromise]);
+}
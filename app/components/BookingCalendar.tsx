@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { BookingSlot } from '@/app/lib/availability';
+import type { QuoteBooking } from '@/app/lib/quote-store';
+
+interface BookingCalendarProps {
+  quoteId: string;
+  token: string;
+  onBack?: () => void;
+}
+
+// "2026-10-21" → "Wed, Oct 21" (date-only, so format in UTC)
+function formatSlotDate(date: string, style: 'short' | 'full' = 'short') {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', {
+    timeZone: 'UTC',
+    ...(style === 'short' ? { weekday: 'short', month: 'short', day: 'numeric' } : { dateStyle: 'full' }),
+  });
+}
+
+// Booking step once the quote is accepted: pick an open start time and reserve it
+export default function BookingCalendar({ quoteId, token, onBack }: BookingCalendarProps) {
+  const [slots, setSlots] = useState<BookingSlot[] | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [booking, setBooking] = useState<QuoteBooking | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/quote/${quoteId}/booking?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const result = (await response.json()) as { slots?: BookingSlot[]; booking?: QuoteBooking; error?: string };
+        if (cancelled) return;
+        if (!response.ok) throw new Error(result.error || 'Failed to load available times');
+        setBooking(result.booking ?? null);
+        setSlots(result.slots ?? []);
+        setSelectedDate(result.slots?.[0]?.date ?? null);
+      })
+      .catch((loadError) => {
+        console.error('Booking slots error:', loadError);
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : 'Failed to load available times');
+          setSlots([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteId, token]);
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/quote/${quoteId}/booking`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, date: selectedSlot.date, start: selectedSlot.start }),
+      });
+      const result = (await response.json()) as { booking?: QuoteBooking; error?: string };
+      if (!response.ok || !result.booking) {
+        // Someone else took it: drop it from the list so they pick another
+        if (response.status === 409) {
+          setSlots((prev) => prev?.filter((slot) => slot !== selectedSlot) ?? null);
+          setSelectedSlot(null);
+        }
+        throw new Error(result.error || 'Failed to book your time');
+      }
+      setBooking(result.booking);
+    } catch (bookError) {
+      console.error('Booking error:', bookError);
+      setError(bookError instanceof Error ? bookError.message : 'Failed to book your time. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dates = [...new Set(slots?.map((slot) => slot.date))];
+  const times = slots?.filter((slot) => slot.date === selectedDate) ?? [];
+
+  return (
+    <div className="bg-white rounded-3xl shadow-lg p-8 md:p-12 space-y-6">
+      <h2 className="text-3xl font-bold text-center" style={{ color: '#2d3a6b' }}>
+        {booking ? "You're Booked!" : 'Book a Time'}
+      </h2>
+
+      {booking ? (
+        <div className="text-center space-y-2">
+          <p className="text-xl font-semibold" style={{ color: '#2d3a6b' }}>
+            {formatSlotDate(booking.date, 'full')}, {booking.start}–{booking.end}
+          </p>
+          <p className="text-gray-600">We&apos;ve emailed you a confirmation with your crew&apos;s arrival window.</p>
+        </div>
+      ) : slots === null ? (
+        <p className="text-center text-gray-500">Loading available times...</p>
+      ) : slots.length === 0 ? (
+        <p className="text-center text-gray-600">
+          {error ?? 'No online times are open for a job this size.'} Please call us at (206) 619-7551 to schedule.
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {dates.map((date) => (
+              <button
+                key={date}
+                type="button"
+                onClick={() => {
+                  setSelectedDate(date);
+                  setSelectedSlot(null);
+                }}
+                className="px-4 py-2 rounded-xl text-sm font-semibold whitespace-nowrap border-2"
+                style={{
+                  borderColor: '#2d3a6b',
+                  backgroundColor: selectedDate === date ? '#2d3a6b' : '#ffffff',
+                  color: selectedDate === date ? '#ffffff' : '#2d3a6b',
+                }}
+              >
+                {formatSlotDate(date)}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+            {times.map((slot) => (
+              <button
+                key={slot.start}
+                type="button"
+                onClick={() => setSelectedSlot(slot)}
+                className={`py-3 rounded-xl font-semibold ${selectedSlot === slot ? 'shadow-lg' : 'shadow border border-gray-200'}`}
+                style={{
+                  backgroundColor: selectedSlot === slot ? '#2d3a6b' : '#ffffff',
+                  color: selectedSlot === slot ? '#ffffff' : '#2d3a6b',
+                }}
+              >
+                {slot.start}
+              </button>
+            ))}
+          </div>
+          {selectedSlot && (
+            <p className="text-gray-600 text-center">
+              {formatSlotDate(selectedSlot.date, 'full')}, {selectedSlot.start}–{selectedSlot.end}
+            </p>
+          )}
+          {error && <p className="text-sm text-red-700 text-center">{error}</p>}
+          <button
+            type="button"
+            onClick={handleBook}
+            disabled={!selectedSlot || saving}
+            className="w-full px-8 py-4 rounded-xl font-bold text-lg text-white disabled:opacity-50"
+            style={{ backgroundColor: '#2d3a6b' }}
+          >
+            {saving ? 'Booking...' : 'Confirm Booking'}
+          </button>
+        </>
+      )}
+
+      {onBack && (
+        <div className="text-center">
+          <button type="button" onClick={onBack} className="text-blue-600 hover:underline">
+            ← Back to your quote
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+
+interface DepositCheckoutProps {
+  quoteId: string;
+  token: string;
+  amount: number;
+}
+
+// Sends the customer to the payment provider's checkout for their booking deposit
+export default function DepositCheckout({ quoteId, token, amount }: DepositCheckoutProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheckout = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/quote/${quoteId}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const result = (await response.json()) as { checkoutUrl?: string; error?: string };
+      if (!response.ok || !result.checkoutUrl) {
+        throw new Error(result.error || 'Failed to start your deposit payment');
+      }
+      window.location.assign(result.checkoutUrl);
+    } catch (checkoutError) {
+      console.error('Deposit checkout error:', checkoutError);
+      setError(checkoutError instanceof Error ? checkoutError.message : 'Failed to start your deposit payment.');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleCheckout}
+        disabled={loading}
+        className="px-8 py-3 rounded-xl font-semibold text-white disabled:opacity-50"
+        style={{ backgroundColor: '#2d3a6b' }}
+      >
+        {loading ? 'Opening checkout...' : `Pay $${amount.toFixed(2)} Deposit`}
+      </button>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useRef, useState, type PointerEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { QUOTE_TERMS, QUOTE_TERMS_VERSION } from '@/app/lib/quote-terms';
+
+// One acceptable price: the customer's own selection (no key) or a package
+export interface AcceptanceOption {
+  packageKey?: string;
+  name: string;
+  description?: string;
+  minPrice: number;
+  maxPrice: number;
+}
+
+interface QuoteAcceptanceProps {
+  quoteId: string;
+  token: string;
+  address: string;
+  options: AcceptanceOption[];
+}
+
+type SignatureMethod = 'typed' | 'drawn';
+
+// Accept-and-sign form on /quote/[id]; the page re-renders as accepted on success
+export default function QuoteAcceptance({ quoteId, token, address, options }: QuoteAcceptanceProps) {
+  const router = useRouter();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [addressConfirmed, setAddressConfirmed] = useState(false);
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const [method, setMethod] = useState<SignatureMethod>('typed');
+  const [signerName, setSignerName] = useState('');
+  const [hasDrawn, setHasDrawn] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsReload, setNeedsReload] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  const canSubmit =
+    addressConfirmed && termsAccepted && signerName.trim().length >= 2 && (method === 'typed' || hasDrawn);
+
+  // SIGNATURE PAD: Pointer events cover mouse, pen and touch alike
+  const getPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = getPoint(event);
+    context.lineWidth = 3;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#1f2937';
+    context.beginPath();
+    context.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasDrawn(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawn(false);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const image = method === 'drawn' ? canvasRef.current?.toDataURL('image/png') : undefined;
+      const response = await fetch(`/api/quote/${quoteId}/accept`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token,
+          packageKey: options[selectedIndex]?.packageKey,
+          addressConfirmed,
+          termsAccepted,
+          termsVersion: QUOTE_TERMS_VERSION,
+          signature: { method, name: signerName, image },
+        }),
+      });
+      if (!response.ok) {
+        const result = (await response.json()) as { error?: string };
+        setError(result.error || 'Failed to accept your quote. Please try again.');
+        // Expired/re-priced quotes and updated terms must be reviewed again
+        setNeedsReload(response.status === 409);
+        return;
+      }
+      router.refresh();
+    } catch (submitError) {
+      console.error('Quote acceptance error:', submitError);
+      setError('Failed to accept your quote. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 text-left">
+      {options.length > 1 && (
+        <div>
+          <p className="font-semibold text-gray-700 mb-3">Choose your option</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {options.map((option, index) => (
+              <button
+                key={option.packageKey ?? 'selection'}
+                type="button"
+                onClick={() => setSelectedIndex(index)}
+                className={`p-4 rounded-2xl text-left transition-all ${
+                  selectedIndex === index ? 'shadow-lg' : 'shadow border border-gray-200'
+                }`}
+                style={{
+                  backgroundColor: selectedIndex === index ? '#2d3a6b' : '#ffffff',
+                  color: selectedIndex === index ? '#ffffff' : '#2d3a6b',
+                }}
+              >
+                <span className="block font-bold">{option.name}</span>
+                {option.description && <span className="block text-sm opacity-75 mb-2">{option.description}</span>}
+                <span className="block font-semibold">
+                  ${option.minPrice.toLocaleString()} - ${option.maxPrice.toLocaleString()}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <label className="flex items-start gap-3 text-gray-700">
+        <input
+          type="checkbox"
+          checked={addressConfirmed}
+          onChange={(event) => setAddressConfirmed(event.target.checked)}
+          className="mt-1 w-5 h-5"
+        />
+        <span>
+          The work is at <strong>{address}</strong>
+        </span>
+      </label>
+
+      <div className="bg-gray-50 rounded-2xl p-4 text-sm text-gray-700">
+        <p className="font-semibold mb-2">Terms</p>
+        <ul className="list-disc pl-5 space-y-1">
+          {QUOTE_TERMS.map((term) => (
+            <li key={term}>{term}</li>
+          ))}
+        </ul>
+      </div>
+      <label className="flex items-start gap-3 text-gray-700">
+        <input
+          type="checkbox"
+          checked={termsAccepted}
+          onChange={(event) => setTermsAccepted(event.target.checked)}
+          className="mt-1 w-5 h-5"
+        />
+        <span>I agree to these terms</span>
+      </label>
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          {(['typed', 'drawn'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setMethod(option);
+                setHasDrawn(false);
+              }}
+              className="px-4 py-2 rounded-xl text-sm font-semibold border-2"
+              style={{
+                borderColor: '#2d3a6b',
+                backgroundColor: method === option ? '#2d3a6b' : '#ffffff',
+                color: method === option ? '#ffffff' : '#2d3a6b',
+              }}
+            >
+              {option === 'typed' ? 'Type signature' : 'Draw signature'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={signerName}
+          onChange={(event) => setSignerName(event.target.value)}
+          placeholder="Full name"
+          maxLength={100}
+          className={`w-full p-3 border-2 border-gray-300 rounded-xl ${method === 'typed' ? 'text-2xl italic font-serif' : ''}`}
+        />
+        {method === 'drawn' && (
+          <div>
+            <canvas
+              ref={canvasRef}
+              width={600}
+              height={180}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              className="w-full h-40 border-2 border-dashed border-gray-300 rounded-xl bg-white touch-none"
+            />
+            <button type="button" onClick={clearSignature} className="text-sm text-gray-500 underline mt-1">
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 rounded-lg p-3">
+          <p>{error}</p>
+          {needsReload && (
+            <button type="button" onClick={() => router.refresh()} className="underline font-semibold mt-1">
+              Reload quote
+            </button>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={!canSubmit || submitting}
+        className="w-full px-8 py-4 rounded-xl font-bold text-lg text-white disabled:opacity-50"
+        style={{ backgroundColor: '#2d3a6b' }}
+      >
+        {submitting ? 'Submitting...' : 'Accept & Sign'}
+      </button>
+    </div>
+  );
+}
@@ -2,58 +2,130 @@
 
 import { useState } from 'react';
 import usePlacesAutocomplete, { getGeocode, getLatLng } from 'use-places-autocomplete';
+import { ALGAE_LEVELS, SERVICE_KEYS, SERVICE_LABELS, TECHNIQUE_LABELS } from '@/app/lib/catalog-keys';
+import type {
+  AddOnLineItem,
+  AddOnOption,
+  AddOnSizes,
+  ConditionLineItem,
+  DiscountLineItem,
+  MaterialOption,
+  PackageQuote,
+  PropertyCondition,
+  ServiceKey,
+  ServiceLineItem,
+  TaxLineItem,
+  WindowCounts,
+} from '@/app/lib/pricing';
+import type { JobDuration } from '@/app/lib/duration';
 
 interface QuoteData {
+  services: ServiceKey[];
   address: string;
   lat: number | null;
   lng: number | null;
   squareFeet: number;
   stories: number;
   material: string;  // Updated: material instead of sidingType
+  condition: PropertyCondition;
   addOns: {
     driveway: boolean;
     gutters: boolean;
     deckPatio: boolean;
   };
+  addOnSizes: AddOnSizes;
+  windows: WindowCounts;
+  gutterLinearFt: number;
+  promoCode: string;
   email: string;
   quote: {
+    quoteId?: string;       // Stored quote reference, printed in both emails
+    quoteUrl?: string;      // Private /quote/[id] link (also emailed)
+    accessToken?: string;   // Authorizes follow-up requests from the result screen
     min: number;
     max: number;
+    manualReview?: boolean; // Material needs an owner assessment—no online price
+    duration?: JobDuration; // Crew size and on-site hours
+    packages?: PackageQuote[];
     breakdown?: {
       basePrice: number;
       materialSurcharge: number;
+      condition?: ConditionLineItem;
+      services: ServiceLineItem[];
+      addOns: AddOnLineItem[];
+      discount?: DiscountLineItem;
       travelSurcharge: number;
+      minimumChargeAdjustment: number;
+      taxes: TaxLineItem[];
+    };
+    promo?: {
+      code: string;
+      applied: boolean;
+      message?: string;
     };
     routing?: {
       distance: number;
       duration: string;
       travelSurcharge: number;
+      provisional?: boolean;
     };
   } | null;
   satelliteImage: string | null;
 }
 
+// 0.09975 → "9.975%", 0.05 → "5%"
+function formatTaxRate(rate: number) {
+  return `${Number((rate * 100).toFixed(3))}%`;
+}
+
 function getStaticMapUrl(lat: number, lng: number) {
   return `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lng}&zoom=20&size=600x400&maptype=satellite&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY}`;
 }
 
-const QuoteGenerator = () => {
+interface QuoteGeneratorProps {
+  initialService?: ServiceKey; // Pre-selected from a service page link (/quote?service=...)
+  materialOptions: MaterialOption[]; // From the live catalog (see app/quote/page.tsx)
+  addOnOptions: AddOnOption[];
+}
+
+const QuoteGenerator = ({ initialService = 'houseWash', materialOptions, addOnOptions }: QuoteGeneratorProps) => {
   const [step, setStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
-  const [distanceError, setDistanceError] = useState<{ distance: number; address: string } | null>(null);
+  const [selectedPackage, setSelectedPackage] = useState<string | null>(null);
+  const [packageSaving, setPackageSaving] = useState(false);
+  const [distanceError, setDistanceError] = useState<{ distance: number; address: string; message?: string; zone?: string } | null>(null);
   const [data, setData] = useState<QuoteData>({
+    services: [initialService],
     address: '',
     lat: null,
     lng: null,
     squareFeet: 2500,
     stories: 2,
     material: 'vinyl',  // Updated: default material for risk-based pricing
+    condition: {
+      algaeLevel: 'none',
+      yearsSinceLastWash: 1,
+      heavyOxidation: false,
+      landscapingObstacles: false,
+    },
     addOns: {
       driveway: false,
       gutters: false,
       deckPatio: false,
     },
+    addOnSizes: {
+      drivewaySqFt: 600,
+      gutterLinearFt: 150,
+      deckPatioSqFt: 300,
+    },
+    windows: {
+      exteriorPanes: 20,
+      interiorPanes: 0,
+      hardToReachPanes: 0,
+    },
+    gutterLinearFt: 150,
+    promoCode: '',
     email: '',
     quote: null,
     satelliteImage: null,
@@ -107,11 +179,18 @@ const QuoteGenerator = () => {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
+            services: data.services,
             address: data.address,
             stories: data.stories,
             squareFeet: data.squareFeet,
             material: data.material,  // New: send material for risk-based pricing
+            condition: data.services.includes('houseWash') ? data.condition : undefined,
             addOns: data.addOns,
+            addOnSizes: data.addOnSizes,
+            // Always sent: packages may include windows/gutters even if not selected
+            windows: data.windows,
+            gutterLinearFt: data.gutterLinearFt,
+            promoCode: data.promoCode || undefined,
             lat: data.lat,
             lng: data.lng,
             email: data.email,
@@ -119,22 +198,41 @@ const QuoteGenerator = () => {
         });
 
         const result = (await response.json()) as {
+          quoteId?: string;
+          quoteUrl?: string;
+          accessToken?: string;
           minPrice?: number;
           maxPrice?: number;
           breakdown?: {
             basePrice: number;
             materialSurcharge: number;
+            condition?: ConditionLineItem;
+            services: ServiceLineItem[];
+            addOns: AddOnLineItem[];
+            discount?: DiscountLineItem;
             travelSurcharge: number;
+            minimumChargeAdjustment: number;
+            taxes: TaxLineItem[];
+          };
+          promo?: {
+            code: string;
+            applied: boolean;
+            message?: string;
           };
           routing?: {
             distance: number;
             duration: string;
             travelSurcharge: number;
+            provisional?: boolean;
           };
+          duration?: JobDuration;
+          packages?: PackageQuote[];
           estate?: boolean;
+          manualReview?: boolean;
           message?: string;
           error?: string;
           distance?: number;
+          zone?: string;
         };
 
         // PRIORITY 1: Handle out-of-service-area errors (400 with distance info)
@@ -142,6 +240,8 @@ const QuoteGenerator = () => {
           setDistanceError({
             distance: result.distance,
             address: data.address,
+            message: result.message,
+            zone: result.zone,
           });
           setLoading(false);
           return;
@@ -152,19 +252,25 @@ const QuoteGenerator = () => {
           throw new Error(result.error || 'Failed to fetch quote');
         }
 
-        if (result.estate) {
-          // Estate service - show premium message
+        if (result.estate || result.manualReview) {
+          // Estate service or manual-review material - show owner follow-up message
           setData((prev) => ({
             ...prev,
-            quote: { min: 0, max: 0 }, // Placeholder
+            quote: { min: 0, max: 0, manualReview: result.manualReview }, // Placeholder
           }));
         } else {
           setData((prev) => ({
             ...prev,
             quote: {
+              quoteId: result.quoteId,
+              quoteUrl: result.quoteUrl,
+              accessToken: result.accessToken,
               min: result.minPrice || 0,
               max: result.maxPrice || 0,
               breakdown: result.breakdown,
+              duration: result.duration,
+              packages: result.packages,
+              promo: result.promo,
               routing: result.routing,
             },
           }));
@@ -182,6 +288,66 @@ const QuoteGenerator = () => {
     }
   };
 
+  // PACKAGE CHOICE: Record which Good/Better/Best option the customer wants on their stored quote
+  const handleSelectPackage = async (packageKey: string) => {
+    if (!data.quote?.quoteId || !data.quote.accessToken) return;
+    setPackageSaving(true);
+    try {
+      const response = await fetch('/api/quote/package', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId: data.quote.quoteId, token: data.quote.accessToken, packageKey }),
+      });
+      if (!response.ok) {
+        const result = (await response.json()) as { error?: string };
+        throw new Error(result.error || 'Failed to save your package choice');
+      }
+      setSelectedPackage(packageKey);
+    } catch (error) {
+      console.error('Package selection error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save your package choice. Please try again.');
+    } finally {
+      setPackageSaving(false);
+    }
+  };
+
+  const toggleService = (service: ServiceKey) => {
+    setData((prev) => ({
+      ...prev,
+      services: prev.services.includes(service)
+        ? prev.services.filter((key) => key !== service)
+        : SERVICE_KEYS.filter((key) => key === service || prev.services.includes(key)),
+    }));
+  };
+
+  const updateCondition = <K extends keyof PropertyCondition>(field: K, value: PropertyCondition[K]) => {
+    setData((prev) => ({
+      ...prev,
+      condition: { ...prev.condition, [field]: value },
+    }));
+  };
+
+  const updateWindowCount = (field: keyof WindowCounts, count: number) => {
+    setData((prev) => ({
+      ...prev,
+      windows: { ...prev.windows, [field]: Math.max(count, 0) },
+    }));
+  };
+
+  const includesWash = data.services.includes('houseWash');
+  const includesWindows = data.services.includes('windowCleaning');
+  const includesGutterService = data.services.includes('gutterCleaning');
+  // Estate rule only applies to house washing (wall area drives complexity)
+  const isEstate = includesWash && data.squareFeet >= 4500;
+  const needsManualReview = Boolean(data.quote?.manualReview);
+  const selectedMaterialLabel =
+    materialOptions.find((option) => option.material === data.material)?.label ?? data.material;
+
+  // Gutter Cleaning as a service replaces the gutters add-on
+  const visibleAddOnOptions = addOnOptions.filter(
+    (addon) => !(includesGutterService && addon.key === 'gutters')
+  );
+
   const handlePrevStep = () => {
     if (step > 1) setStep(step - 1);
   };
@@ -192,13 +358,6 @@ const QuoteGenerator = () => {
     { label: '3+ Story', value: 3 },
   ];
 
-  // Updated: Material options for pricing
-  const materialOptions = [
-    { label: 'Vinyl', value: 'vinyl' },
-    { label: 'Brick', value: 'brick' },
-    { label: 'Stucco', value: 'stucco' },
-  ];
-
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 py-12 px-6">
       <div className="max-w-2xl mx-auto">
@@ -224,10 +383,10 @@ const QuoteGenerator = () => {
                     <strong>{distanceError.address}</strong>
                   </p>
                   <p className="text-3xl font-bold" style={{ color: '#2d3a6b' }}>
-                    {Math.round(distanceError.distance)}km away
+                    {distanceError.zone ?? `${Math.round(distanceError.distance)}km away`}
                   </p>
                   <p className="text-gray-500 mt-4 text-lg">
-                    We currently serve within 45km of Langley, BC.
+                    {distanceError.message ?? 'We currently serve within 45km of Langley, BC.'}
                   </p>
                 </div>
                 <div className="bg-gray-50 rounded-2xl p-6">
@@ -267,7 +426,7 @@ const QuoteGenerator = () => {
           // Thank You Page
           <div className="text-center">
             <div className="mb-12">
-              {data.squareFeet >= 4500 ? (
+              {isEstate ? (
                 <>
                   <svg className="w-24 h-24 mx-auto mb-6" fill="#2d3a6b" viewBox="0 0 24 24">
                     <path d="M12 2L15.09 8.26h6.79l-5.5 3.99 2.09 6.26L12 14.5l-5.38 3.99 2.09-6.26-5.5-3.99h6.79L12 2z" />
@@ -293,13 +452,13 @@ const QuoteGenerator = () => {
                 </>
               )}
               <p className="text-lg text-gray-500">
-                {data.squareFeet < 4500 && 'Mark will contact you before the end of the day'}
+                {!isEstate && 'Mark will contact you before the end of the day'}
               </p>
             </div>
 
             <div className="bg-white rounded-3xl shadow-lg p-8 md:p-12 mb-8">
               <div className="space-y-6">
-                {data.squareFeet >= 4500 ? (
+                {isEstate ? (
                   // Estate message
                   <div>
                     <p className="text-gray-600 mb-4 text-lg leading-relaxed">
@@ -312,52 +471,165 @@ const QuoteGenerator = () => {
                       Mark will call you within 15 minutes to discuss your property's unique needs and provide a custom rate.
                     </p>
                   </div>
+                ) : needsManualReview ? (
+                  // Manual review material
+                  <div>
+                    <p className="text-gray-600 mb-4 text-lg leading-relaxed">
+                      {selectedMaterialLabel} siding varies a lot from home to home, so we price it by hand to make sure we use the right technique.
+                    </p>
+                    <p className="text-gray-600 text-lg leading-relaxed font-semibold">
+                      Mark will contact you to go over your siding and provide a custom rate.
+                    </p>
+                  </div>
                 ) : (
                   // Standard quote
                   <div>
                     <p className="text-gray-600 mb-2">Quote Summary</p>
                     <div className="bg-gray-50 rounded-2xl p-6 space-y-3">
+                      {data.quote?.quoteId && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-700">Quote Reference:</span>
+                          <span className="font-semibold font-mono">{data.quote.quoteId}</span>
+                        </div>
+                      )}
+                      {data.quote?.quoteUrl && (
+                        <div className="text-right">
+                          <a href={data.quote.quoteUrl} className="text-blue-600 hover:underline text-sm">
+                            View or share your quote →
+                          </a>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span className="text-gray-700">Address:</span>
                         <span className="font-semibold">{data.address}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Services:</span>
+                        <span className="font-semibold">{data.services.map((key) => SERVICE_LABELS[key]).join(', ')}</span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-gray-700">Stories:</span>
                         <span className="font-semibold">{data.stories}</span>
                       </div>
-                      {Object.values(data.addOns).some((v) => v) && (
+                      {data.quote?.breakdown?.condition && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-700">Property Condition ({data.quote.breakdown.condition.factors.join(', ')})</span>
+                          <span className="font-semibold">${data.quote.breakdown.condition.amount.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {data.quote?.breakdown?.services.map((item) => (
+                        <div key={item.key} className="flex justify-between text-sm">
+                          <span className="text-gray-700">{item.label} ({item.detail})</span>
+                          <span className="font-semibold">${item.price.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      {data.quote?.breakdown && data.quote.breakdown.addOns.length > 0 && (
                         <div className="border-t pt-3">
                           <span className="text-gray-700">Add-ons:</span>
                           <div className="text-sm text-gray-600 mt-1">
-                            {data.addOns.driveway && <div>✓ Driveway Cleaning</div>}
-                            {data.addOns.gutters && <div>✓ Gutter Cleaning</div>}
-                            {data.addOns.deckPatio && <div>✓ Deck/Patio Cleaning</div>}
+                            {data.quote.breakdown.addOns.map((item) => (
+                              <div key={item.key} className="flex justify-between">
+                                <span>✓ {item.label} ({item.quantity.toLocaleString()} {item.unit})</span>
+                                <span className="font-semibold">${item.price.toFixed(2)}</span>
+                              </div>
+                            ))}
                           </div>
                         </div>
                       )}
+                      {data.quote?.breakdown?.discount && (
+                        <div className="flex justify-between border-t pt-3 text-green-700">
+                          <span>{data.quote.breakdown.discount.label} ({data.quote.breakdown.discount.code})</span>
+                          <span className="font-semibold">-${data.quote.breakdown.discount.amount.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {data.quote?.breakdown?.taxes.map((tax) => (
+                        <div key={tax.name} className="flex justify-between text-sm">
+                          <span className="text-gray-700">{tax.name} ({formatTaxRate(tax.rate)})</span>
+                          <span className="font-semibold">${tax.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 )}
 
-                <div className={data.squareFeet >= 4500 ? '' : 'py-6 border-t'}>
-                  {data.squareFeet < 4500 && (
+                <div className={isEstate || needsManualReview ? '' : 'py-6 border-t'}>
+                  {!isEstate && !needsManualReview && (
                     <>
-                      <p className="text-gray-600 text-lg mb-2">Estimated Price Range</p>
+                      <p className="text-gray-600 text-lg mb-2">Estimated Price Range (incl. tax)</p>
                       <p className="text-5xl font-bold" style={{ color: '#2d3a6b' }}>
                         ${data.quote?.min.toLocaleString()} - ${data.quote?.max.toLocaleString()}
                       </p>
                       <p className="text-sm text-gray-500 mt-4">
-                        Quote for wash only. Additional services will be calculated on site.
+                        Includes selected services and add-ons. Final price confirmed on site.
                       </p>
+                      {data.quote?.promo?.message && (
+                        <p className="text-sm text-orange-600 mt-2">
+                          Promo code {data.quote.promo.code}: {data.quote.promo.message}
+                        </p>
+                      )}
+                      {data.quote?.routing?.provisional && (
+                        <p className="text-sm text-orange-600 mt-2">
+                          Provisional estimate: we couldn&apos;t confirm the driving distance, so travel may change once we review your quote.
+                        </p>
+                      )}
                     </>
                   )}
                   <p className="text-sm text-gray-500 mt-4">
                     Confirmation email sent to {data.email}
                   </p>
                 </div>
+
+                {!isEstate && !needsManualReview && data.quote?.packages && data.quote.packages.length > 0 && (
+                  <div className="border-t pt-6">
+                    <p className="text-gray-600 text-lg mb-4">Or choose a package</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      {data.quote.packages.map((option) => (
+                        <button
+                          key={option.key}
+                          onClick={() => handleSelectPackage(option.key)}
+                          disabled={packageSaving || !data.quote?.accessToken}
+                          className={`p-4 rounded-2xl text-left transition-all ${
+                            selectedPackage === option.key
+                              ? 'shadow-lg'
+                              : 'shadow border border-gray-200'
+                          }`}
+                          style={{
+                            backgroundColor: selectedPackage === option.key ? '#2d3a6b' : '#ffffff',
+                            color: selectedPackage === option.key ? '#ffffff' : '#2d3a6b',
+                          }}
+                        >
+                          <span className="block font-bold">{option.name}</span>
+                          <span className="block text-sm opacity-75 mb-2">{option.description}</span>
+                          <span className="block font-semibold">
+                            ${option.minPrice.toLocaleString()} - ${option.maxPrice.toLocaleString()}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                    {selectedPackage && (
+                      <p className="text-sm text-green-700 mt-4">
+                        Thanks! We&apos;ve let Mark know you chose the{' '}
+                        {data.quote.packages.find((option) => option.key === selectedPackage)?.name} package.
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Booking follows acceptance, both on the quote page */}
+            {!isEstate && !needsManualReview && data.quote?.quoteUrl && (
+              <div className="mb-8">
+                <a
+                  href={data.quote.quoteUrl}
+                  className="inline-block px-10 py-4 rounded-xl font-bold text-lg text-white shadow-lg"
+                  style={{ backgroundColor: '#2d3a6b' }}
+                >
+                  Accept &amp; Book a Time →
+                </a>
+              </div>
+            )}
+
             <div className="space-y-4">
               <p className="text-gray-600">Have questions? Contact us anytime</p>
               <div className="flex flex-col md:flex-row gap-4 justify-center">
@@ -386,7 +658,7 @@ const QuoteGenerator = () => {
             Get Your Free Quote
           </h1>
           <p className="text-lg text-gray-600">
-            House Washing - We'll analyze your home and create a personalized estimate
+            House Washing, Windows & Gutters - We'll analyze your home and create a personalized estimate
           </p>
         </div>
 
@@ -483,39 +755,69 @@ const QuoteGenerator = () => {
             <div className="space-y-8">
               <div>
                 <h2 className="text-3xl font-bold mb-2" style={{ color: '#2d3a6b' }}>
-                  Fine-Tune Details
+                  Services & Details
                 </h2>
-                <p className="text-gray-600">Adjust your home details if needed</p>
+                <p className="text-gray-600">Choose your services and adjust your home details</p>
               </div>
 
               <div>
                 <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
-                  Square Footage: <span className="text-2xl ml-2">
-                    {data.squareFeet.toLocaleString()}
-                  </span>
+                  Services
                 </label>
-                <input
-                  type="range"
-                  min="500"
-                  max="10000"
-                  step="100"
-                  value={data.squareFeet}
-                  onChange={(e) =>
-                    setData((prev) => ({ ...prev, squareFeet: parseInt(e.target.value) }))
-                  }
-                  className="w-full h-3 bg-gray-300 rounded-lg appearance-none cursor-pointer"
-                  style={{
-                    background: `linear-gradient(to right, #2d3a6b 0%, #2d3a6b ${
-                      ((data.squareFeet - 500) / 9500) * 100
-                    }%, #e5e7eb ${((data.squareFeet - 500) / 9500) * 100}%, #e5e7eb 100%)`,
-                  }}
-                />
-                <div className="flex justify-between text-sm text-gray-500 mt-2">
-                  <span>500 sq ft</span>
-                  <span>10,000 sq ft</span>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {SERVICE_KEYS.map((service) => (
+                    <button
+                      key={service}
+                      onClick={() => toggleService(service)}
+                      className={`p-4 rounded-2xl font-semibold transition-all ${
+                        data.services.includes(service)
+                          ? 'shadow-lg'
+                          : 'shadow border border-gray-200'
+                      }`}
+                      style={{
+                        backgroundColor: data.services.includes(service) ? '#2d3a6b' : '#ffffff',
+                        color: data.services.includes(service) ? '#ffffff' : '#2d3a6b',
+                      }}
+                    >
+                      {SERVICE_LABELS[service]}
+                    </button>
+                  ))}
                 </div>
+                {data.services.length === 0 && (
+                  <p className="text-sm text-red-600 mt-2">Select at least one service</p>
+                )}
               </div>
 
+              {includesWash && (
+                <div>
+                  <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
+                    Square Footage: <span className="text-2xl ml-2">
+                      {data.squareFeet.toLocaleString()}
+                    </span>
+                  </label>
+                  <input
+                    type="range"
+                    min="500"
+                    max="10000"
+                    step="100"
+                    value={data.squareFeet}
+                    onChange={(e) =>
+                      setData((prev) => ({ ...prev, squareFeet: parseInt(e.target.value) }))
+                    }
+                    className="w-full h-3 bg-gray-300 rounded-lg appearance-none cursor-pointer"
+                    style={{
+                      background: `linear-gradient(to right, #2d3a6b 0%, #2d3a6b ${
+                        ((data.squareFeet - 500) / 9500) * 100
+                      }%, #e5e7eb ${((data.squareFeet - 500) / 9500) * 100}%, #e5e7eb 100%)`,
+                    }}
+                  />
+                  <div className="flex justify-between text-sm text-gray-500 mt-2">
+                    <span>500 sq ft</span>
+                    <span>10,000 sq ft</span>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
                   Number of Stories
@@ -542,31 +844,145 @@ const QuoteGenerator = () => {
                 </div>
               </div>
 
-              <div>
-                <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
-                  Siding Material
-                </label>
-                <div className="grid grid-cols-1 gap-3">
-                  {materialOptions.map((option) => (
-                    <button
-                      key={option.value}
-                      onClick={() => setData((prev) => ({ ...prev, material: option.value }))}
-                      className={`p-4 rounded-2xl font-semibold transition-all text-left ${
-                        data.material === option.value
-                          ? 'shadow-lg'
-                          : 'shadow border border-gray-200'
-                      }`}
-                      style={{
-                        backgroundColor:
-                          data.material === option.value ? '#2d3a6b' : '#ffffff',
-                        color: data.material === option.value ? '#ffffff' : '#2d3a6b',
-                      }}
-                    >
-                      {option.label}
-                    </button>
-                  ))}
+              {includesWash && (
+                <div>
+                  <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
+                    Siding Material
+                  </label>
+                  <div className="grid grid-cols-1 gap-3">
+                    {materialOptions.map((option) => (
+                      <button
+                        key={option.material}
+                        onClick={() => setData((prev) => ({ ...prev, material: option.material }))}
+                        className={`p-4 rounded-2xl font-semibold transition-all text-left ${
+                          data.material === option.material
+                            ? 'shadow-lg'
+                            : 'shadow border border-gray-200'
+                        }`}
+                        style={{
+                          backgroundColor:
+                            data.material === option.material ? '#2d3a6b' : '#ffffff',
+                          color: data.material === option.material ? '#ffffff' : '#2d3a6b',
+                        }}
+                      >
+                        <span>{option.label}</span>
+                        <span className="block text-sm font-normal opacity-75">
+                          {TECHNIQUE_LABELS[option.technique]}
+                          {option.manualReview && ' · Priced after a quick review by our team'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {includesWash && (
+                <div>
+                  <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
+                    Property Condition
+                  </label>
+                  <p className="text-sm font-semibold mb-2 text-gray-700">Algae / moss on the siding</p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                    {ALGAE_LEVELS.map((level) => (
+                      <button
+                        key={level}
+                        onClick={() => updateCondition('algaeLevel', level)}
+                        className={`p-3 rounded-2xl font-semibold capitalize transition-all ${
+                          data.condition.algaeLevel === level
+                            ? 'shadow-lg'
+                            : 'shadow border border-gray-200'
+                        }`}
+                        style={{
+                          backgroundColor:
+                            data.condition.algaeLevel === level ? '#2d3a6b' : '#ffffff',
+                          color: data.condition.algaeLevel === level ? '#ffffff' : '#2d3a6b',
+                        }}
+                      >
+                        {level}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="block text-sm font-semibold mb-2 text-gray-700">
+                    Years since last wash
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="50"
+                    value={data.condition.yearsSinceLastWash}
+                    onChange={(e) => updateCondition('yearsSinceLastWash', Math.max(parseInt(e.target.value) || 0, 0))}
+                    className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-blue-500 transition mb-4"
+                  />
+                  <div className="space-y-3">
+                    {[
+                      { field: 'heavyOxidation' as const, label: 'Heavy oxidation (chalky residue when you rub the siding)' },
+                      { field: 'landscapingObstacles' as const, label: 'Shrubs, garden beds or decks against the walls' },
+                    ].map((input) => (
+                      <label key={input.field} className="flex items-center gap-3 text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={data.condition[input.field]}
+                          onChange={(e) => updateCondition(input.field, e.target.checked)}
+                          className="w-5 h-5"
+                        />
+                        {input.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {includesWindows && (
+                <div>
+                  <label className="block text-lg font-semibold mb-4" style={{ color: '#2d3a6b' }}>
+                    Windows
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {[
+                      { field: 'exteriorPanes' as const, label: 'Exterior panes' },
+                      { field: 'interiorPanes' as const, label: 'Interior panes' },
+                      { field: 'hardToReachPanes' as const, label: 'Hard-to-reach panes' },
+                    ].map((input) => (
+                      <div key={input.field}>
+                        <label className="block text-sm font-semibold mb-2 text-gray-700">
+                          {input.label}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={data.windows[input.field]}
+                          onChange={(e) => updateWindowCount(input.field, parseInt(e.target.value) || 0)}
+                          className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-blue-500 transition"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-2">
+                    Hard-to-reach panes need a ladder (upper floors, skylights, over decks).
+                  </p>
+                </div>
+              )}
+
+              {includesGutterService && (
+                <div>
+                  <label className="block text-lg font-semibold mb-2" style={{ color: '#2d3a6b' }}>
+                    Gutter Length (linear ft)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="10"
+                    value={data.gutterLinearFt}
+                    onChange={(e) =>
+                      setData((prev) => ({ ...prev, gutterLinearFt: parseInt(e.target.value) || 0 }))
+                    }
+                    className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-blue-500 transition"
+                  />
+                  <p className="text-sm text-gray-500 mt-2">
+                    Roughly the perimeter of your roofline. Taller homes are priced per storey.
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
@@ -580,11 +996,7 @@ const QuoteGenerator = () => {
               </div>
 
               <div className="space-y-4">
-                {[
-                  { key: 'driveway', label: 'Driveway Cleaning' },
-                  { key: 'gutters', label: 'Gutter Cleaning' },
-                  { key: 'deckPatio', label: 'Deck/Patio Cleaning' },
-                ].map((addon) => (
+                {visibleAddOnOptions.map((addon) => (
                   <div
                     key={addon.key}
                     onClick={() =>
@@ -592,34 +1004,58 @@ const QuoteGenerator = () => {
                         ...prev,
                         addOns: {
                           ...prev.addOns,
-                          [addon.key]: !prev.addOns[addon.key as keyof typeof prev.addOns],
+                          [addon.key]: !prev.addOns[addon.key],
                         },
                       }))
                     }
-                    className="flex items-center justify-between p-6 rounded-2xl border-2 transition-all cursor-pointer"
+                    className="p-6 rounded-2xl border-2 transition-all cursor-pointer"
                     style={{
-                      borderColor:
-                        data.addOns[addon.key as keyof typeof data.addOns] ? '#2d3a6b' : '#e5e7eb',
-                      backgroundColor:
-                        data.addOns[addon.key as keyof typeof data.addOns] ? 'rgba(45, 58, 107, 0.05)' : '#ffffff',
+                      borderColor: data.addOns[addon.key] ? '#2d3a6b' : '#e5e7eb',
+                      backgroundColor: data.addOns[addon.key] ? 'rgba(45, 58, 107, 0.05)' : '#ffffff',
                     }}
                   >
-                    <div className="flex-1">
-                      <p className="font-semibold text-lg" style={{ color: '#2d3a6b' }}>
-                        {addon.label}
-                      </p>
-                    </div>
-                    <div
-                      className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${
-                        data.addOns[addon.key as keyof typeof data.addOns] ? 'bg-blue-500' : 'bg-gray-200'
-                      }`}
-                    >
-                      {data.addOns[addon.key as keyof typeof data.addOns] && (
-                        <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      )}
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <p className="font-semibold text-lg" style={{ color: '#2d3a6b' }}>
+                          {addon.label}
+                        </p>
+                      </div>
+                      <div
+                        className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${
+                          data.addOns[addon.key] ? 'bg-blue-500' : 'bg-gray-200'
+                        }`}
+                      >
+                        {data.addOns[addon.key] && (
+                          <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                          </svg>
+                        )}
+                      </div>
                     </div>
+                    {/* SIZING INPUT: Each add-on is priced from its own measurement */}
+                    {data.addOns[addon.key] && (
+                      <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+                        <label className="block text-sm font-semibold mb-2 text-gray-700">
+                          Approximate size ({addon.unit})
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          step="10"
+                          value={data.addOnSizes[addon.sizeField]}
+                          onChange={(e) =>
+                            setData((prev) => ({
+                              ...prev,
+                              addOnSizes: {
+                                ...prev.addOnSizes,
+                                [addon.sizeField]: parseInt(e.target.value) || 0,
+                              },
+                            }))
+                          }
+                          className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-blue-500 transition"
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -669,12 +1105,22 @@ const QuoteGenerator = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-700">Material:</span>
-                      <span className="font-semibold capitalize">{data.material}</span>
+                      <span className="font-semibold">{selectedMaterialLabel}</span>
                     </div>
                     {data.quote?.routing && (
                       <div className="flex justify-between">
                         <span className="text-gray-700">Distance:</span>
-                        <span className="font-semibold">{data.quote.routing.distance} km</span>
+                        <span className="font-semibold">
+                          {data.quote.routing.distance} km{data.quote.routing.provisional ? ' (estimated)' : ''}
+                        </span>
+                      </div>
+                    )}
+                    {data.quote?.duration && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Estimated Time On Site:</span>
+                        <span className="font-semibold">
+                          {data.quote.duration.onSiteHours} hours (crew of {data.quote.duration.crewSize})
+                        </span>
                       </div>
                     )}
                     {Object.values(data.addOns).some((v) => v) && (
@@ -682,9 +1128,13 @@ const QuoteGenerator = () => {
                         <div className="border-t pt-3">
                           <span className="text-gray-700">Add-ons:</span>
                           <div className="text-sm text-gray-600 mt-1">
-                            {data.addOns.driveway && <div>✓ Driveway Cleaning</div>}
-                            {data.addOns.gutters && <div>✓ Gutter Cleaning</div>}
-                            {data.addOns.deckPatio && <div>✓ Deck/Patio Cleaning</div>}
+                            {visibleAddOnOptions
+                              .filter((addon) => data.addOns[addon.key])
+                              .map((addon) => (
+                                <div key={addon.key}>
+                                  ✓ {addon.label} ({data.addOnSizes[addon.sizeField].toLocaleString()} {addon.unit})
+                                </div>
+                              ))}
                           </div>
                         </div>
                       </>
@@ -692,38 +1142,81 @@ const QuoteGenerator = () => {
                   </div>
 
                   <div className="text-center py-8">
-                    <p className="text-gray-600 text-lg mb-2">Your Estimated Price</p>
+                    <p className="text-gray-600 text-lg mb-2">Your Estimated Price (incl. tax)</p>
                     <p className="text-5xl font-bold" style={{ color: '#2d3a6b' }}>
                       ${data.quote.min.toLocaleString()} - ${data.quote.max.toLocaleString()}
                     </p>
+                    {data.quote.routing?.provisional && (
+                      <p className="text-sm text-orange-600 mt-2">
+                        Provisional estimate: travel is based on an estimated distance and will be confirmed when we review your quote.
+                      </p>
+                    )}
                     
                     {/* NEW: Display pricing breakdown with travel surcharge */}
                     {data.quote.breakdown && (
                       <div className="mt-8 bg-blue-50 rounded-2xl p-6 text-left">
                         <h3 className="font-bold mb-4" style={{ color: '#2d3a6b' }}>Price Breakdown</h3>
                         <div className="space-y-2 text-sm">
-                          <div className="flex justify-between">
-                            <span className="text-gray-700">Base Service ({data.stories} story/stories):</span>
-                            <span className="font-semibold">${data.quote.breakdown.basePrice.toFixed(2)}</span>
-                          </div>
+                          {includesWash && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-700">Base Service ({data.squareFeet.toLocaleString()} sq ft, {data.stories} story/stories):</span>
+                              <span className="font-semibold">${data.quote.breakdown.basePrice.toFixed(2)}</span>
+                            </div>
+                          )}
                           {data.quote.breakdown.materialSurcharge > 0 && (
                             <div className="flex justify-between">
-                              <span className="text-gray-700">{data.material.charAt(0).toUpperCase() + data.material.slice(1)} Material Surcharge:</span>
+                              <span className="text-gray-700">{selectedMaterialLabel} Material Surcharge:</span>
                               <span className="font-semibold">+${data.quote.breakdown.materialSurcharge.toFixed(2)}</span>
                             </div>
                           )}
+                          {data.quote.breakdown.condition && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-700">Property Condition ({data.quote.breakdown.condition.factors.join(', ')}):</span>
+                              <span className="font-semibold">+${data.quote.breakdown.condition.amount.toFixed(2)}</span>
+                            </div>
+                          )}
+                          {data.quote.breakdown.services.map((item) => (
+                            <div key={item.key} className="flex justify-between">
+                              <span className="text-gray-700">{item.label} ({item.detail}):</span>
+                              <span className="font-semibold">+${item.price.toFixed(2)}</span>
+                            </div>
+                          ))}
+                          {data.quote.breakdown.addOns.map((item) => (
+                            <div key={item.key} className="flex justify-between">
+                              <span className="text-gray-700">{item.label} ({item.quantity.toLocaleString()} {item.unit}):</span>
+                              <span className="font-semibold">+${item.price.toFixed(2)}</span>
+                            </div>
+                          ))}
+                          {data.quote.breakdown.discount && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-700">{data.quote.breakdown.discount.label} ({data.quote.breakdown.discount.code}):</span>
+                              <span className="font-semibold text-green-700">-${data.quote.breakdown.discount.amount.toFixed(2)}</span>
+                            </div>
+                          )}
                           {data.quote.breakdown.travelSurcharge > 0 && (
                             <div className="flex justify-between border-t pt-2">
                               <span className="text-gray-700">Travel Surcharge ({data.quote.routing?.distance}km):</span>
                               <span className="font-semibold text-orange-600">+${data.quote.breakdown.travelSurcharge.toFixed(2)}</span>
                             </div>
                           )}
+                          {data.quote.breakdown.minimumChargeAdjustment > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-700">Minimum Job Charge Adjustment:</span>
+                              <span className="font-semibold">+${data.quote.breakdown.minimumChargeAdjustment.toFixed(2)}</span>
+                            </div>
+                          )}
+                          {data.quote.breakdown.taxes.map((tax) => (
+                            <div key={tax.name} className="flex justify-between">
+                              <span className="text-gray-700">{tax.name} ({formatTaxRate(tax.rate)}):</span>
+                              <span className="font-semibold">+${tax.amount.toFixed(2)}</span>
+                            </div>
+                          ))}
                         </div>
                       </div>
                     )}
                     
                     <p className="text-sm text-gray-500 mt-4">
-                      Quote for wash only. Selected add-ons will be calculated on site.
+                      Includes selected services and add-ons. Final price confirmed on site.
                     </p>
                   </div>
 
@@ -754,6 +1247,16 @@ const QuoteGenerator = () => {
                     placeholder="your@email.com"
                     className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-blue-500 transition"
                   />
+                  <label className="block text-lg font-semibold mb-2 mt-6" style={{ color: '#2d3a6b' }}>
+                    Promo Code <span className="text-sm font-normal text-gray-500">(optional)</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={data.promoCode}
+                    onChange={(e) => setData((prev) => ({ ...prev, promoCode: e.target.value.toUpperCase() }))}
+                    placeholder="SPRING10"
+                    className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-blue-500 transition uppercase"
+                  />
                 </div>
               )}
             </div>
@@ -775,6 +1278,7 @@ const QuoteGenerator = () => {
             disabled={
               loading ||
               (step === 1 && !data.satelliteImage) ||
+              (step === 2 && data.services.length === 0) ||
               (step === 4 && !data.email)
             }
             className="flex-1 px-6 py-4 rounded-xl font-bold text-lg text-white transition-all hover:opacity-90 disabled:opacity-50"
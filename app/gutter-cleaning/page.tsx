@@ -45,7 +45,7 @@ export default function GutterCleaning() {
 					</div>
 					<div className="flex flex-wrap gap-4">
 						<Link
-							href="/quote"
+							href="/quote?service=gutterCleaning"
 							className="px-6 py-3 rounded-lg font-bold text-lg"
 							style={{ backgroundColor: "#2d3a6b", color: "#ffffff" }}
 						>
@@ -112,7 +112,7 @@ export default function GutterCleaning() {
 					</p>
 					<div className="flex flex-wrap gap-4">
 						<Link
-							href="/quote"
+							href="/quote?service=gutterCleaning"
 							className="px-6 py-3 rounded-lg font-bold text-lg"
 							style={{ backgroundColor: "#2d3a6b", color: "#ffffff" }}
 						>
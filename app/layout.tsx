@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import Script from "next/script";
 import { Montserrat, Geist_Mono } from "next/font/google";
 import Image from "next/image";
+import Link from "next/link";
 import "./globals.css";
 
 const montserrat = Montserrat({
@@ -98,9 +99,9 @@ export default function RootLayout({
               <a href="/about" className="text-white hover:text-blue-300 transition font-bold text-lg">
                 About
               </a>
-              <a href="/quote" className="text-white hover:text-blue-300 transition font-bold text-lg">
+              <Link href="/quote" className="text-white hover:text-blue-300 transition font-bold text-lg">
                 Contact
-              </a>
+              </Link>
             </div>
           </div>
         </nav>
@@ -186,9 +187,9 @@ export default function RootLayout({
                     </a>
                   </li>
                   <li>
-                    <a href="/quote" className="hover:text-blue-300 transition">
+                    <Link href="/quote" className="hover:text-blue-300 transition">
                       Get a Quote
-                    </a>
+                    </Link>
                   </li>
                 </ul>
               </div>
@@ -0,0 +1,282 @@
+/**
+ * ============================================================================
+ * BOOKING CALENDAR & CREW AVAILABILITY
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Turns a stored quote into a scheduled job: offers the open start times
+ * for the job's estimated duration and reserves one for a crew.
+ *
+ * RULES (catalog `schedule`):
+ * • Days: from today + minimumNoticeDays for bookingWindowDays, skipping
+ *   closed weekdays and blackout dates
+ * • Times: local working hours in `timeZone`, on a slotMinutes grid
+ * • Acceptance first: only accepted quotes can be booked, so the slots are
+ *   sized for what the customer signed for (a package may run longer than
+ *   the quoted selection)
+ * • Length: the job's totalHours (on site + travel, duration.ts), rounded
+ *   up to whole slots—the whole job must fit inside one working day
+ * • Provisional quotes (travel estimated offline) can't be booked until the
+ *   owner confirms them
+ * • Crews: any crew with at least the job's crew size; if none is big
+ *   enough, the largest crews take it (the job just runs longer)
+ * • Arrival: the crew arrives within arrivalWindowMinutes of the start,
+ *   which leaves the day's route planner (route-planner.ts) room to reorder
+ *
+ * STORAGE:
+ * One hash per crew per day at `schedule:<date>:<crewKey>`, mapping each
+ * occupied slot start ("HH:MM") to the quote ID holding it.
+ *
+ * ATOMICITY:
+ * A job claims its slots one by one with HSETNX. If any is already taken
+ * the claimed ones are rolled back and the next crew is tried—two
+ * customers can never hold the same crew slot.
+ * ============================================================================
+ */
+import { WEEKDAYS, type Crew, type ScheduleRules } from './catalog';
+import type { JobDuration } from './duration';
+import { redis } from './redis';
+import { isQuoteExpired, recordBooking, type QuoteBooking, type StoredQuote } from './quote-store';
+
+/**
+ * Why a booking was rejected
+ */
+export enum BookingError {
+  ALREADY_BOOKED = 'ALREADY_BOOKED',
+  QUOTE_EXPIRED = 'QUOTE_EXPIRED',
+  NOT_ACCEPTED = 'NOT_ACCEPTED',
+  PENDING_REVIEW = 'PENDING_REVIEW',
+  INVALID_SLOT = 'INVALID_SLOT',
+  SLOT_UNAVAILABLE = 'SLOT_UNAVAILABLE',
+}
+
+/**
+ * Bookable start time, local to the schedule's time zone
+ */
+export interface BookingSlot {
+  date: string;  // "YYYY-MM-DD"
+  start: string; // "HH:MM"
+  end: string;   // "HH:MM"
+}
+
+export interface BookingResult {
+  booking?: QuoteBooking;
+  error?: BookingError;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scheduleKey = (date: string, crewKey: string) => `schedule:${date}:${crewKey}`;
+
+// "HH:MM" ↔ minutes since midnight
+export const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+
+export const formatTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Calendar arithmetic on "YYYY-MM-DD" strings in UTC, so DST never shifts a day
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const getWeekday = (date: string) => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+// en-CA formats dates as YYYY-MM-DD
+function getLocalDate(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/**
+ * Duration of the job being booked: the accepted selection's (acceptances
+ * recorded before durations were stored fall back to the quoted selection).
+ */
+export function getJobDuration(stored: StoredQuote): JobDuration {
+  return stored.acceptance?.price.duration ?? stored.duration;
+}
+
+/**
+ * Slots a job occupies: on-site time plus the round trip.
+ */
+export function getJobSlotCount(duration: JobDuration, slotMinutes: number): number {
+  return Math.max(1, Math.ceil((duration.totalHours * 60) / slotMinutes));
+}
+
+/**
+ * Crews that can take a job, in catalog order.
+ */
+export function getEligibleCrews(duration: JobDuration, crews: Crew[]): Crew[] {
+  const bigEnough = crews.filter((crew) => crew.members >= duration.crewSize);
+  if (bigEnough.length > 0) return bigEnough;
+  const largest = Math.max(...crews.map((crew) => crew.members));
+  return crews.filter((crew) => crew.members === largest);
+}
+
+/**
+ * Open working days customers may book, earliest first.
+ */
+export function getBookableDates(schedule: ScheduleRules, now: Date = new Date()): string[] {
+  const today = getLocalDate(now, schedule.timeZone);
+  const blackouts = new Set(schedule.blackoutDates);
+  const dates: string[] = [];
+  for (let offset = schedule.minimumNoticeDays; offset < schedule.bookingWindowDays; offset++) {
+    const date = addDays(today, offset);
+    if (schedule.workingHours[getWeekday(date)] && !blackouts.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+// Grid start times (minutes) on a date where a job of `slotCount` slots fits the working day
+function getStartTimes(date: string, slotCount: number, schedule: ScheduleRules): number[] {
+  const hours = schedule.workingHours[getWeekday(date)];
+  if (!hours) return [];
+  const starts: number[] = [];
+  const lastStart = toMinutes(hours.end) - slotCount * schedule.slotMinutes;
+  for (let minutes = toMinutes(hours.start); minutes <= lastStart; minutes += schedule.slotMinutes) {
+    starts.push(minutes);
+  }
+  return starts;
+}
+
+function getSlotTimes(start: number, slotCount: number, slotMinutes: number): string[] {
+  return Array.from({ length: slotCount }, (_, index) => formatTime(start + index * slotMinutes));
+}
+
+/**
+ * Every start time at which at least one eligible crew is free for the
+ * whole job.
+ */
+export async function findOpenSlots(
+  duration: JobDuration,
+  schedule: ScheduleRules,
+  now: Date = new Date()
+): Promise<BookingSlot[]> {
+  const slotCount = getJobSlotCount(duration, schedule.slotMinutes);
+  const crews = getEligibleCrews(duration, schedule.crews);
+  const dates = getBookableDates(schedule, now).filter((date) => getStartTimes(date, slotCount, schedule).length > 0);
+  if (dates.length === 0) return [];
+
+  // One round-trip for every crew-day in the window
+  const pipeline = redis.pipeline();
+  dates.forEach((date) => crews.forEach((crew) => pipeline.hgetall(scheduleKey(date, crew.key))));
+  const occupied = (await pipeline.exec()) as (Record<string, string> | null)[];
+
+  return dates.flatMap((date, dateIndex) => {
+    const crewSlots = crews.map((_, crewIndex) => occupied[dateIndex * crews.length + crewIndex] ?? {});
+    return getStartTimes(date, slotCount, schedule)
+      .filter((start) => {
+        const times = getSlotTimes(start, slotCount, schedule.slotMinutes);
+        return crewSlots.some((taken) => times.every((time) => !(time in taken)));
+      })
+      .map((start) => ({
+        date,
+        start: formatTime(start),
+        end: formatTime(start + slotCount * schedule.slotMinutes),
+      }));
+  });
+}
+
+/**
+ * Latest promised arrival for a booking ("HH:MM"): start + arrivalWindowMinutes.
+ */
+export function getArrivalWindowEnd(booking: Pick<QuoteBooking, 'start'>, schedule: ScheduleRules): string {
+  return formatTime(toMinutes(booking.start) + schedule.arrivalWindowMinutes);
+}
+
+/**
+ * Quote IDs holding a crew's slots on a date, earliest first.
+ */
+export async function getCrewDayQuoteIds(date: string, crewKey: string): Promise<string[]> {
+  const taken = ((await redis.hgetall(scheduleKey(date, crewKey))) ?? {}) as Record<string, string>;
+  const byTime = Object.entries(taken).sort(([a], [b]) => a.localeCompare(b));
+  return [...new Set(byTime.map(([, quoteId]) => quoteId))];
+}
+
+// Claim every slot for one crew, or none of them
+async function claimSlots(date: string, crewKey: string, times: string[], quoteId: string): Promise<boolean> {
+  const key = scheduleKey(date, crewKey);
+  const claimed: string[] = [];
+  for (const time of times) {
+    if ((await redis.hsetnx(key, time, quoteId)) === 0) {
+      if (claimed.length > 0) await redis.hdel(key, ...claimed);
+      return false;
+    }
+    claimed.push(time);
+  }
+  return true;
+}
+
+/**
+ * Reserve a start time for a stored quote and record the booking on it.
+ */
+export async function bookQuote(
+  stored: StoredQuote,
+  { date, start }: Pick<BookingSlot, 'date' | 'start'>,
+  schedule: ScheduleRules,
+  now: Date = new Date()
+): Promise<BookingResult> {
+  if (stored.booking) {
+    return { error: BookingError.ALREADY_BOOKED };
+  }
+  if (isQuoteExpired(stored, now)) {
+    return { error: BookingError.QUOTE_EXPIRED };
+  }
+  if (!stored.acceptance) {
+    return { error: BookingError.NOT_ACCEPTED };
+  }
+  if (stored.routing.provisional) {
+    return { error: BookingError.PENDING_REVIEW };
+  }
+
+  // VALIDATION: Only times findOpenSlots could have offered
+  const duration = getJobDuration(stored);
+  const slotCount = getJobSlotCount(duration, schedule.slotMinutes);
+  const isOffered =
+    getBookableDates(schedule, now).includes(date) &&
+    getStartTimes(date, slotCount, schedule).some((minutes) => formatTime(minutes) === start);
+  if (!isOffered) {
+    return { error: BookingError.INVALID_SLOT };
+  }
+
+  const times = getSlotTimes(toMinutes(start), slotCount, schedule.slotMinutes);
+  for (const crew of getEligibleCrews(duration, schedule.crews)) {
+    if (!(await claimSlots(date, crew.key, times, stored.id))) continue;
+
+    const booking: QuoteBooking = {
+      crewKey: crew.key,
+      crewName: crew.name,
+      date,
+      start,
+      end: formatTime(toMinutes(start) + slotCount * schedule.slotMinutes),
+      timeZone: schedule.timeZone,
+      bookedAt: now.toISOString(),
+    };
+    // A concurrent request for the same quote may have booked another time
+    if (!(await recordBooking(stored.id, booking))) {
+      await redis.hdel(scheduleKey(date, crew.key), ...times);
+      return { error: BookingError.ALREADY_BOOKED };
+    }
+    return { booking };
+  }
+  return { error: BookingError.SLOT_UNAVAILABLE };
+}
+
+/**
+ * Customer-facing explanation for a rejected booking.
+ */
+export function getBookingErrorMessage(error: BookingError): string {
+  switch (error) {
+    case BookingError.ALREADY_BOOKED:
+      return 'This quote has already been booked.';
+    case BookingError.QUOTE_EXPIRED:
+      return 'This quote has expired. Please open it again to see current pricing before booking.';
+    case BookingError.NOT_ACCEPTED:
+      return 'Please accept your quote before booking a time.';
+    case BookingError.PENDING_REVIEW:
+      return "We're confirming the travel details for this quote first. We'll be in touch to schedule, or call us at (206) 619-7551.";
+    case BookingError.INVALID_SLOT:
+      return 'That time is not available for booking.';
+    case BookingError.SLOT_UNAVAILABLE:
+      return 'Sorry, that time was just taken. Please pick another.';
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Catalog keys and their display labels.
+ *
+ * CLIENT-SAFE: Holds no rates or catalog data, so client components import
+ * these from here—importing catalog.ts or pricing.ts would bundle the whole
+ * pricing catalog (promo codes, job costs) into the browser.
+ */
+export const ADD_ON_KEYS = ['driveway', 'gutters', 'deckPatio'] as const;
+
+export type AddOnKey = (typeof ADD_ON_KEYS)[number];
+
+// Services that can be quoted on their own or combined
+export const SERVICE_KEYS = ['houseWash', 'windowCleaning', 'gutterCleaning'] as const;
+
+export type ServiceKey = (typeof SERVICE_KEYS)[number];
+
+// How a siding material must be cleaned
+export const MATERIAL_TECHNIQUES = ['softWash', 'pressureWash'] as const;
+
+export type MaterialTechnique = (typeof MATERIAL_TECHNIQUES)[number];
+
+// Algae/moss growth observed on the siding, lightest first
+export const ALGAE_LEVELS = ['none', 'light', 'moderate', 'heavy'] as const;
+
+export type AlgaeLevel = (typeof ALGAE_LEVELS)[number];
+
+// Material risk bands, derived from the material multiplier (see getRiskLevel)
+export const RISK_LEVELS = ['Standard', 'Moderate', 'High'] as const;
+
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export const TECHNIQUE_LABELS: Record<MaterialTechnique, string> = {
+  softWash: 'Soft Wash',
+  pressureWash: 'Pressure Wash',
+};
+
+export const SERVICE_LABELS: Record<ServiceKey, string> = {
+  houseWash: 'House Washing',
+  windowCleaning: 'Window Cleaning',
+  gutterCleaning: 'Gutter Cleaning',
+};
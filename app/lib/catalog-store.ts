@@ -0,0 +1,38 @@
+/**
+ * Loads the live pricing catalog from Upstash Redis.
+ *
+ * PUBLISHING A PRICE CHANGE:
+ * Write the full catalog JSON (with a bumped `version`) to the
+ * `pricing:catalog` key. Instances pick it up within CATALOG_CACHE_TTL_MS.
+ *
+ * RESILIENCE:
+ * • Missing key or Redis not configured → bundled catalog
+ * • Invalid document → logged, last good catalog (or bundled) stays in use
+ */
+import { DEFAULT_PRICING_CATALOG, validatePricingCatalog, type PricingCatalog } from './catalog';
+import { redis, isRedisConfigured } from './redis';
+
+const CATALOG_KEY = 'pricing:catalog';
+const CATALOG_CACHE_TTL_MS = 60 * 1000; // Avoid a Redis round-trip per quote
+
+let cachedCatalog: { catalog: PricingCatalog; loadedAt: number } | null = null;
+
+export async function getPricingCatalog(): Promise<PricingCatalog> {
+  if (!isRedisConfigured) {
+    return DEFAULT_PRICING_CATALOG;
+  }
+
+  if (cachedCatalog && Date.now() - cachedCatalog.loadedAt < CATALOG_CACHE_TTL_MS) {
+    return cachedCatalog.catalog;
+  }
+
+  try {
+    const raw = await redis.get<unknown>(CATALOG_KEY);
+    const catalog = raw ? validatePricingCatalog(raw) : DEFAULT_PRICING_CATALOG;
+    cachedCatalog = { catalog, loadedAt: Date.now() };
+    return catalog;
+  } catch (error) {
+    console.error('Pricing catalog load failed, keeping previous catalog:', error);
+    return cachedCatalog?.catalog ?? DEFAULT_PRICING_CATALOG;
+  }
+}
@@ -0,0 +1,946 @@
+/**
+ * ============================================================================
+ * PRICING CATALOG
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Every rate the quoting engine uses lives in a versioned catalog document
+ * instead of compile-time constants, so price changes don't need a deploy.
+ *
+ * SOURCES:
+ * ├─ Bundled default: app/lib/pricing-catalog.json (ships with the build)
+ * └─ Live override: JSON document in Upstash Redis (see catalog-store.ts)
+ *
+ * VERSIONING:
+ * • `version` is a positive integer—bump it on every published change
+ * • Each quote response and email is stamped with the version used, so a
+ *   disputed price can be traced back to the exact rate sheet
+ *
+ * VALIDATION:
+ * Documents are schema-checked at load. A malformed catalog throws
+ * PricingCatalogError rather than silently pricing jobs at $0.
+ * ============================================================================
+ */
+import bundledCatalog from './pricing-catalog.json';
+import {
+  ADD_ON_KEYS,
+  ALGAE_LEVELS,
+  MATERIAL_TECHNIQUES,
+  RISK_LEVELS,
+  SERVICE_KEYS,
+  type AddOnKey,
+  type AlgaeLevel,
+  type MaterialTechnique,
+  type RiskLevel,
+  type ServiceKey,
+} from './catalog-keys';
+import type { Coordinates, PolygonCoordinates, Position, ZoneGeometry } from './geo';
+
+export { ADD_ON_KEYS, ALGAE_LEVELS, MATERIAL_TECHNIQUES, RISK_LEVELS, SERVICE_KEYS } from './catalog-keys';
+export type { AddOnKey, AlgaeLevel, MaterialTechnique, RiskLevel, ServiceKey } from './catalog-keys';
+
+// Working-hours keys, in Date#getDay order (Sunday first)
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface SqFtRateTier {
+  upToSqFt: number | null; // null = no upper bound (last tier)
+  ratePerSqFt: number;
+}
+
+export interface AddOnRate {
+  label: string;
+  unit: string;
+  ratePerUnit: number;
+  minimumCharge: number;
+  defaultSize: number;
+}
+
+export interface WindowCleaningRates {
+  label: string;
+  exteriorRatePerPane: number;
+  interiorRatePerPane: number;
+  hardToReachSurchargePerPane: number; // Ladder work above the first floor
+  minimumCharge: number;
+}
+
+export interface GutterCleaningRates {
+  label: string;
+  ratePerLinearFt: number;
+  storyMultipliers: Record<string, number>;
+  minimumCharge: number;
+  defaultLinearFt: number;
+}
+
+/**
+ * Siding material: price multiplier plus how it must be cleaned
+ */
+export interface MaterialRate {
+  label: string;
+  multiplier: number;
+  technique: MaterialTechnique;
+  manualReview: boolean; // Too delicate/variable to price online—owner assesses on site
+}
+
+/**
+ * Property condition multipliers (house wash only)
+ */
+export interface ConditionRates {
+  algae: Record<AlgaeLevel, number>;
+  yearsSinceWash: { minYears: number; multiplier: number }[]; // Ascending; highest matching step wins
+  heavyOxidation: number;        // Chalky paint/siding needs a gentler, slower wash
+  landscapingObstacles: number;  // Shrubs and beds against walls slow setup and rinsing
+  maxCombinedMultiplier: number; // Cap on the product of all factors
+}
+
+/**
+ * Good/Better/Best package offered alongside the customer's own selection
+ */
+export interface ServicePackage {
+  key: string;            // Stable id sent back when the customer picks it
+  name: string;           // e.g. "Full Exterior"
+  description: string;
+  services: ServiceKey[];
+  addOns: AddOnKey[];
+}
+
+export interface Promotion {
+  code: string;                     // Customer-entered code, matched case-insensitively
+  label: string;                    // Shown on the breakdown line, e.g. "Spring Clean Special"
+  type: 'percentage' | 'fixed';
+  value: number;                    // Percent off (0-100) or dollars off
+  services: ServiceKey[];           // Services the discount applies to
+  validFrom: string;                // ISO timestamp, inclusive
+  validUntil: string;               // ISO timestamp, exclusive
+  minimumOrder: number;             // Pre-travel order value required
+  usageCap: number | null;          // Total redemptions allowed (null = unlimited)
+}
+
+/**
+ * Service zone: a GeoJSON polygon with its own travel rule.
+ * Stored in the catalog as a FeatureCollection (`routing.zones`).
+ */
+export interface ServiceZone {
+  name: string;
+  travelFee: number; // Flat fee replacing the per-km surcharge
+  reject: boolean;   // Zone is not serviced at all
+  geometry: ZoneGeometry;
+}
+
+/**
+ * Dispatch depot (crew yard) that jobs can be routed from
+ */
+export interface Depot {
+  name: string;            // Shown in the admin email, e.g. "Langley Yard"
+  address: string;         // Origin for address-based providers (Google)
+  location?: Coordinates;  // Origin for coordinate-based providers (OSRM, haversine)
+}
+
+/**
+ * Price policy: floor, rounding, quoted range width, how long a quote holds
+ * and the booking deposit
+ */
+export interface PricePolicy {
+  minimumJobCharge: number; // Pre-tax floor for any job—what it costs to roll a truck
+  roundTo: number;          // Quoted prices round to the nearest multiple, e.g. 5 or 25
+  quoteValidityDays: number; // Stored quotes are re-priced when opened after this
+  rangeWidth: {
+    default: number;                                    // Fraction added for the max price
+    services: Partial<Record<ServiceKey, number>>;      // Per-service override
+    riskLevels: Partial<Record<RiskLevel, number>>;     // Per material risk level (house wash)
+  };                                                    // Widest applicable width wins
+  deposit: {
+    rate: number;          // Fraction of the accepted minimum price, e.g. 0.2
+    minimumAmount: number; // Dollars; never more than the accepted minimum price
+  };
+}
+
+/**
+ * Crew sizing: bigger jobs get more hands so they finish in about a day
+ */
+export interface CrewSizing {
+  minCrewSize: number;
+  maxCrewSize: number;
+  targetOnSiteHours: number; // Wall-clock hours a crew should spend on one job
+}
+
+/**
+ * Internal job cost model (owner-only—never shown to customers)
+ */
+export interface JobCostRates {
+  labourRatePerHour: number;                                  // Loaded wage per crew member
+  crewSizing: CrewSizing;
+  setupHoursPerCrewMember: number;                            // Unload, ladders, tarps, cleanup
+  washSqFtPerHour: number;                                    // One person, single-storey vinyl
+  storyLabourMultipliers: Record<string, number>;
+  serviceUnitsPerHour: Record<Exclude<ServiceKey, 'houseWash'>, number>; // Panes / linear ft per person-hour
+  addOnUnitsPerHour: Record<AddOnKey, number>;                // Add-on units per person-hour
+  chemicalCostPerSqFt: Record<MaterialTechnique, number>;     // Siding square footage
+  vehicleCostPerKm: number;                                   // Fuel + depreciation, round trip
+  minimumMarginRate: number;                                  // Quotes below this are flagged to the owner
+}
+
+/**
+ * One day's working hours, local time ("HH:MM", 24-hour clock)
+ */
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+export interface Crew {
+  key: string;     // Stable id stored on bookings, e.g. "crew-a"
+  name: string;    // e.g. "Crew A"
+  members: number; // Takes jobs sized for this many people or fewer
+  depot?: string;  // routing.depots name the crew starts from (default: first depot)
+}
+
+/**
+ * Booking calendar rules (availability.ts)
+ */
+export interface ScheduleRules {
+  timeZone: string;                              // IANA zone the working hours are in
+  slotMinutes: number;                           // Booking grid; jobs start on it and round up to it
+  bookingWindowDays: number;                     // How far ahead customers can book
+  minimumNoticeDays: number;                     // 1 = tomorrow is the earliest day
+  arrivalWindowMinutes: number;                  // Crew arrives between the booked start and this much later
+  workingHours: Record<Weekday, WorkingHours | null>; // null = closed
+  blackoutDates: string[];                       // "YYYY-MM-DD", e.g. statutory holidays
+  crews: Crew[];
+}
+
+export interface SalesTax {
+  name: string; // As printed on the quote, e.g. "GST", "HST", "QST"
+  rate: number; // Fraction, e.g. 0.05
+}
+
+/**
+ * Pricing catalog document interface
+ */
+export interface PricingCatalog {
+  version: number;
+  effectiveDate: string;
+  baseRate: {
+    sqFtTiers: SqFtRateTier[];
+    storyMultipliers: Record<string, number>;
+    floor: number;
+    cap: number;
+  };
+  materials: Record<string, MaterialRate>; // Keyed by wizard value, e.g. "hardieBoard"
+  conditions: ConditionRates;
+  addOns: Record<AddOnKey, AddOnRate>;
+  services: {
+    windowCleaning: WindowCleaningRates;
+    gutterCleaning: GutterCleaningRates;
+  };
+  packages: ServicePackage[]; // Cheapest first, as shown on the result screen
+  promotions: Promotion[];
+  tax: {
+    defaultProvince: string;                 // Used when the address has no province code
+    provinces: Record<string, SalesTax[]>;   // Two-letter code → taxes charged on services
+  };
+  routing: {
+    maxServiceDistanceKm: number;
+    surchargeThresholdKm: number;
+    surchargeRatePerKm: number;
+    zones: ServiceZone[]; // First matching zone wins; km rule applies outside all zones
+    depots: Depot[];      // Empty = single origin from OWNER_ADDRESS
+  };
+  pricePolicy: PricePolicy;
+  jobCosts: JobCostRates;
+  schedule: ScheduleRules;
+}
+
+/**
+ * Raised when a catalog document fails schema validation
+ */
+export class PricingCatalogError extends Error {
+  constructor(path: string, problem: string) {
+    super(`Invalid pricing catalog at "${path}": ${problem}`);
+    this.name = 'PricingCatalogError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new PricingCatalogError(path, 'expected an object');
+  }
+  return value;
+}
+
+function expectNumber(
+  value: unknown,
+  path: string,
+  { min = 0, max = Infinity }: { min?: number; max?: number } = {}
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PricingCatalogError(path, 'expected a finite number');
+  }
+  if (value < min || value > max) {
+    throw new PricingCatalogError(path, `expected a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new PricingCatalogError(path, 'expected a non-empty string');
+  }
+  return value;
+}
+
+function expectMultiplierMap(value: unknown, path: string): Record<string, number> {
+  const record = expectRecord(value, path);
+  const entries = Object.entries(record);
+  if (entries.length === 0) {
+    throw new PricingCatalogError(path, 'expected at least one entry');
+  }
+  return Object.fromEntries(
+    entries.map(([key, multiplier]) => [key, expectNumber(multiplier, `${path}.${key}`, { min: 0.5, max: 5 })])
+  );
+}
+
+// Story-keyed maps must price single-storey homes; taller homes fall back to the highest key
+function expectStoryMultiplierMap(value: unknown, path: string): Record<string, number> {
+  const multipliers = expectMultiplierMap(value, path);
+  if (multipliers['1'] === undefined) {
+    throw new PricingCatalogError(path, 'expected an entry for "1" story');
+  }
+  return multipliers;
+}
+
+function validateServices(value: unknown, path: string): PricingCatalog['services'] {
+  const services = expectRecord(value, path);
+  const windows = expectRecord(services.windowCleaning, `${path}.windowCleaning`);
+  const gutters = expectRecord(services.gutterCleaning, `${path}.gutterCleaning`);
+
+  return {
+    windowCleaning: {
+      label: expectString(windows.label, `${path}.windowCleaning.label`),
+      exteriorRatePerPane: expectNumber(windows.exteriorRatePerPane, `${path}.windowCleaning.exteriorRatePerPane`),
+      interiorRatePerPane: expectNumber(windows.interiorRatePerPane, `${path}.windowCleaning.interiorRatePerPane`),
+      hardToReachSurchargePerPane: expectNumber(
+        windows.hardToReachSurchargePerPane,
+        `${path}.windowCleaning.hardToReachSurchargePerPane`
+      ),
+      minimumCharge: expectNumber(windows.minimumCharge, `${path}.windowCleaning.minimumCharge`),
+    },
+    gutterCleaning: {
+      label: expectString(gutters.label, `${path}.gutterCleaning.label`),
+      ratePerLinearFt: expectNumber(gutters.ratePerLinearFt, `${path}.gutterCleaning.ratePerLinearFt`),
+      storyMultipliers: expectStoryMultiplierMap(gutters.storyMultipliers, `${path}.gutterCleaning.storyMultipliers`),
+      minimumCharge: expectNumber(gutters.minimumCharge, `${path}.gutterCleaning.minimumCharge`),
+      defaultLinearFt: expectNumber(gutters.defaultLinearFt, `${path}.gutterCleaning.defaultLinearFt`, { min: 1 }),
+    },
+  };
+}
+
+function validateMaterials(value: unknown, path: string): Record<string, MaterialRate> {
+  const record = expectRecord(value, path);
+  const entries = Object.entries(record);
+  if (entries.length === 0) {
+    throw new PricingCatalogError(path, 'expected at least one entry');
+  }
+
+  return Object.fromEntries(
+    entries.map(([key, rawMaterial]) => {
+      const materialPath = `${path}.${key}`;
+      const material = expectRecord(rawMaterial, materialPath);
+      const technique = MATERIAL_TECHNIQUES.find((candidate) => candidate === material.technique);
+      if (!technique) {
+        throw new PricingCatalogError(`${materialPath}.technique`, `expected one of ${MATERIAL_TECHNIQUES.join(', ')}`);
+      }
+      if (typeof material.manualReview !== 'boolean') {
+        throw new PricingCatalogError(`${materialPath}.manualReview`, 'expected a boolean');
+      }
+
+      return [
+        key,
+        {
+          label: expectString(material.label, `${materialPath}.label`),
+          multiplier: expectNumber(material.multiplier, `${materialPath}.multiplier`, { min: 0.5, max: 5 }),
+          technique,
+          manualReview: material.manualReview,
+        },
+      ];
+    })
+  );
+}
+
+function validateConditions(value: unknown, path: string): ConditionRates {
+  const conditions = expectRecord(value, path);
+  const algae = expectRecord(conditions.algae, `${path}.algae`);
+
+  if (!Array.isArray(conditions.yearsSinceWash) || conditions.yearsSinceWash.length === 0) {
+    throw new PricingCatalogError(`${path}.yearsSinceWash`, 'expected a non-empty array');
+  }
+  let previousYears = -1;
+  const yearsSinceWash = conditions.yearsSinceWash.map((rawStep, index) => {
+    const stepPath = `${path}.yearsSinceWash[${index}]`;
+    const step = expectRecord(rawStep, stepPath);
+    const minYears = expectNumber(step.minYears, `${stepPath}.minYears`, { min: previousYears + 1 });
+    previousYears = minYears;
+    return {
+      minYears,
+      multiplier: expectNumber(step.multiplier, `${stepPath}.multiplier`, { min: 1, max: 3 }),
+    };
+  });
+
+  return {
+    algae: Object.fromEntries(
+      ALGAE_LEVELS.map((level) => [
+        level,
+        expectNumber(algae[level], `${path}.algae.${level}`, { min: 1, max: 3 }),
+      ])
+    ) as Record<AlgaeLevel, number>,
+    yearsSinceWash,
+    heavyOxidation: expectNumber(conditions.heavyOxidation, `${path}.heavyOxidation`, { min: 1, max: 3 }),
+    landscapingObstacles: expectNumber(conditions.landscapingObstacles, `${path}.landscapingObstacles`, {
+      min: 1,
+      max: 3,
+    }),
+    maxCombinedMultiplier: expectNumber(conditions.maxCombinedMultiplier, `${path}.maxCombinedMultiplier`, {
+      min: 1,
+      max: 5,
+    }),
+  };
+}
+
+function expectTimestamp(value: unknown, path: string): string {
+  const timestamp = expectString(value, path);
+  if (Number.isNaN(Date.parse(timestamp))) {
+    throw new PricingCatalogError(path, 'expected an ISO date/time');
+  }
+  return timestamp;
+}
+
+function validatePackages(value: unknown, path: string): ServicePackage[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new PricingCatalogError(path, 'expected an array');
+  }
+
+  const seenKeys = new Set<string>();
+  return value.map((rawPackage, index) => {
+    const packagePath = `${path}[${index}]`;
+    const servicePackage = expectRecord(rawPackage, packagePath);
+
+    const key = expectString(servicePackage.key, `${packagePath}.key`);
+    if (seenKeys.has(key)) {
+      throw new PricingCatalogError(`${packagePath}.key`, `duplicate package "${key}"`);
+    }
+    seenKeys.add(key);
+
+    if (!Array.isArray(servicePackage.services) || servicePackage.services.length === 0) {
+      throw new PricingCatalogError(`${packagePath}.services`, 'expected a non-empty array');
+    }
+    const services = servicePackage.services.map((service, serviceIndex) => {
+      if (!SERVICE_KEYS.includes(service)) {
+        throw new PricingCatalogError(`${packagePath}.services[${serviceIndex}]`, `unknown service "${service}"`);
+      }
+      return service as ServiceKey;
+    });
+
+    if (!Array.isArray(servicePackage.addOns)) {
+      throw new PricingCatalogError(`${packagePath}.addOns`, 'expected an array');
+    }
+    const addOns = servicePackage.addOns.map((addOn, addOnIndex) => {
+      if (!ADD_ON_KEYS.includes(addOn)) {
+        throw new PricingCatalogError(`${packagePath}.addOns[${addOnIndex}]`, `unknown add-on "${addOn}"`);
+      }
+      return addOn as AddOnKey;
+    });
+
+    return {
+      key,
+      name: expectString(servicePackage.name, `${packagePath}.name`),
+      description: expectString(servicePackage.description, `${packagePath}.description`),
+      services,
+      addOns,
+    };
+  });
+}
+
+function validatePromotions(value: unknown, path: string): Promotion[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new PricingCatalogError(path, 'expected an array');
+  }
+
+  const seenCodes = new Set<string>();
+  return value.map((rawPromotion, index) => {
+    const promoPath = `${path}[${index}]`;
+    const promotion = expectRecord(rawPromotion, promoPath);
+
+    const code = expectString(promotion.code, `${promoPath}.code`).toUpperCase();
+    if (seenCodes.has(code)) {
+      throw new PricingCatalogError(`${promoPath}.code`, `duplicate code "${code}"`);
+    }
+    seenCodes.add(code);
+
+    if (promotion.type !== 'percentage' && promotion.type !== 'fixed') {
+      throw new PricingCatalogError(`${promoPath}.type`, 'expected "percentage" or "fixed"');
+    }
+
+    if (!Array.isArray(promotion.services) || promotion.services.length === 0) {
+      throw new PricingCatalogError(`${promoPath}.services`, 'expected a non-empty array');
+    }
+    const services = promotion.services.map((service, serviceIndex) => {
+      if (!SERVICE_KEYS.includes(service)) {
+        throw new PricingCatalogError(`${promoPath}.services[${serviceIndex}]`, `unknown service "${service}"`);
+      }
+      return service as ServiceKey;
+    });
+
+    const validFrom = expectTimestamp(promotion.validFrom, `${promoPath}.validFrom`);
+    const validUntil = expectTimestamp(promotion.validUntil, `${promoPath}.validUntil`);
+    if (Date.parse(validUntil) <= Date.parse(validFrom)) {
+      throw new PricingCatalogError(`${promoPath}.validUntil`, 'expected a time after validFrom');
+    }
+
+    return {
+      code,
+      label: expectString(promotion.label, `${promoPath}.label`),
+      type: promotion.type,
+      value: expectNumber(promotion.value, `${promoPath}.value`, {
+        max: promotion.type === 'percentage' ? 100 : Infinity,
+      }),
+      services,
+      validFrom,
+      validUntil,
+      minimumOrder: expectNumber(promotion.minimumOrder ?? 0, `${promoPath}.minimumOrder`),
+      usageCap:
+        promotion.usageCap === null || promotion.usageCap === undefined
+          ? null
+          : expectNumber(promotion.usageCap, `${promoPath}.usageCap`, { min: 1 }),
+    };
+  });
+}
+
+function validateTax(value: unknown, path: string): PricingCatalog['tax'] {
+  const tax = expectRecord(value, path);
+  const provincesDoc = expectRecord(tax.provinces, `${path}.provinces`);
+
+  const provinces = Object.fromEntries(
+    Object.entries(provincesDoc).map(([province, rawTaxes]) => {
+      const provincePath = `${path}.provinces.${province}`;
+      if (!/^[A-Z]{2}$/.test(province)) {
+        throw new PricingCatalogError(provincePath, 'expected a two-letter province code');
+      }
+      if (!Array.isArray(rawTaxes)) {
+        throw new PricingCatalogError(provincePath, 'expected an array');
+      }
+      return [
+        province,
+        rawTaxes.map((rawTax, index) => {
+          const tax = expectRecord(rawTax, `${provincePath}[${index}]`);
+          return {
+            name: expectString(tax.name, `${provincePath}[${index}].name`),
+            rate: expectNumber(tax.rate, `${provincePath}[${index}].rate`, { max: 0.5 }),
+          };
+        }),
+      ];
+    })
+  );
+
+  const defaultProvince = expectString(tax.defaultProvince, `${path}.defaultProvince`);
+  if (!provinces[defaultProvince]) {
+    throw new PricingCatalogError(`${path}.defaultProvince`, `no tax rates for "${defaultProvince}"`);
+  }
+
+  return { defaultProvince, provinces };
+}
+
+function validateRing(value: unknown, path: string): Position[] {
+  if (!Array.isArray(value) || value.length < 4) {
+    throw new PricingCatalogError(path, 'expected a linear ring of at least 4 positions');
+  }
+  const ring = value.map((position, index): Position => {
+    if (!Array.isArray(position) || position.length < 2) {
+      throw new PricingCatalogError(`${path}[${index}]`, 'expected a [longitude, latitude] position');
+    }
+    return [
+      expectNumber(position[0], `${path}[${index}][0]`, { min: -180, max: 180 }),
+      expectNumber(position[1], `${path}[${index}][1]`, { min: -90, max: 90 }),
+    ];
+  });
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    throw new PricingCatalogError(path, 'expected a closed ring (first position = last position)');
+  }
+  return ring;
+}
+
+function validatePolygon(value: unknown, path: string): PolygonCoordinates {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new PricingCatalogError(path, 'expected an array of linear rings');
+  }
+  return value.map((ring, index) => validateRing(ring, `${path}[${index}]`));
+}
+
+function validateZones(value: unknown, path: string): ServiceZone[] {
+  if (value === undefined) return [];
+  const collection = expectRecord(value, path);
+  if (collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new PricingCatalogError(path, 'expected a GeoJSON FeatureCollection');
+  }
+
+  return collection.features.map((rawFeature, index) => {
+    const featurePath = `${path}.features[${index}]`;
+    const feature = expectRecord(rawFeature, featurePath);
+    const properties = expectRecord(feature.properties, `${featurePath}.properties`);
+    const geometry = expectRecord(feature.geometry, `${featurePath}.geometry`);
+
+    let zoneGeometry: ZoneGeometry;
+    if (geometry.type === 'Polygon') {
+      zoneGeometry = { type: 'Polygon', coordinates: validatePolygon(geometry.coordinates, `${featurePath}.geometry.coordinates`) };
+    } else if (geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+      zoneGeometry = {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map((polygon, polygonIndex) =>
+          validatePolygon(polygon, `${featurePath}.geometry.coordinates[${polygonIndex}]`)
+        ),
+      };
+    } else {
+      throw new PricingCatalogError(`${featurePath}.geometry`, 'expected a Polygon or MultiPolygon');
+    }
+
+    const reject = properties.reject === true;
+    return {
+      name: expectString(properties.name, `${featurePath}.properties.name`),
+      travelFee: reject ? 0 : expectNumber(properties.travelFee, `${featurePath}.properties.travelFee`),
+      reject,
+      geometry: zoneGeometry,
+    };
+  });
+}
+
+function expectDepotName(value: unknown, path: string, depots: Depot[]): string {
+  const name = expectString(value, path);
+  if (!depots.some((depot) => depot.name === name)) {
+    throw new PricingCatalogError(path, `unknown depot "${name}"`);
+  }
+  return name;
+}
+
+function validateDepots(value: unknown, path: string): Depot[] {
+  if (!Array.isArray(value)) {
+    throw new PricingCatalogError(path, 'expected an array');
+  }
+
+  const seenNames = new Set<string>();
+  return value.map((rawDepot, index) => {
+    const depotPath = `${path}[${index}]`;
+    const depot = expectRecord(rawDepot, depotPath);
+    const name = expectString(depot.name, `${depotPath}.name`);
+    if (seenNames.has(name)) {
+      throw new PricingCatalogError(`${depotPath}.name`, `duplicate depot "${name}"`);
+    }
+    seenNames.add(name);
+
+    const address = expectString(depot.address, `${depotPath}.address`);
+    if (depot.location === undefined) {
+      return { name, address };
+    }
+    const location = expectRecord(depot.location, `${depotPath}.location`);
+    return {
+      name,
+      address,
+      location: {
+        lat: expectNumber(location.lat, `${depotPath}.location.lat`, { min: -90, max: 90 }),
+        lng: expectNumber(location.lng, `${depotPath}.location.lng`, { min: -180, max: 180 }),
+      },
+    };
+  });
+}
+
+function expectUnitRates<K extends string>(value: unknown, keys: readonly K[], path: string): Record<K, number> {
+  const record = expectRecord(value, path);
+  return Object.fromEntries(
+    keys.map((key) => [key, expectNumber(record[key], `${path}.${key}`, { min: 0.01 })])
+  ) as Record<K, number>;
+}
+
+// Optional per-key widths; unknown keys are rejected so typos don't silently fall back
+function expectWidthOverrides<K extends string>(
+  value: unknown,
+  keys: readonly K[],
+  path: string
+): Partial<Record<K, number>> {
+  if (value === undefined) return {};
+  const record = expectRecord(value, path);
+  return Object.fromEntries(
+    Object.entries(record).map(([key, width]) => {
+      if (!keys.includes(key as K)) {
+        throw new PricingCatalogError(`${path}.${key}`, `expected one of ${keys.join(', ')}`);
+      }
+      return [key, expectNumber(width, `${path}.${key}`, { max: 1 })];
+    })
+  ) as Partial<Record<K, number>>;
+}
+
+function validatePricePolicy(value: unknown, path: string): PricePolicy {
+  const policy = expectRecord(value, path);
+  const rangeWidth = expectRecord(policy.rangeWidth, `${path}.rangeWidth`);
+  const deposit = expectRecord(policy.deposit, `${path}.deposit`);
+
+  const roundTo = expectNumber(policy.roundTo, `${path}.roundTo`, { min: 1, max: 100 });
+  if (!Number.isInteger(roundTo)) {
+    throw new PricingCatalogError(`${path}.roundTo`, 'expected a whole-dollar amount');
+  }
+
+  return {
+    minimumJobCharge: expectNumber(policy.minimumJobCharge, `${path}.minimumJobCharge`),
+    roundTo,
+    quoteValidityDays: expectNumber(policy.quoteValidityDays, `${path}.quoteValidityDays`, { min: 1, max: 365 }),
+    rangeWidth: {
+      default: expectNumber(rangeWidth.default, `${path}.rangeWidth.default`, { max: 1 }),
+      services: expectWidthOverrides(rangeWidth.services, SERVICE_KEYS, `${path}.rangeWidth.services`),
+      riskLevels: expectWidthOverrides(rangeWidth.riskLevels, RISK_LEVELS, `${path}.rangeWidth.riskLevels`),
+    },
+    deposit: {
+      rate: expectNumber(deposit.rate, `${path}.deposit.rate`, { max: 1 }),
+      minimumAmount: expectNumber(deposit.minimumAmount, `${path}.deposit.minimumAmount`),
+    },
+  };
+}
+
+function validateCrewSizing(value: unknown, path: string): CrewSizing {
+  const sizing = expectRecord(value, path);
+  const minCrewSize = expectNumber(sizing.minCrewSize, `${path}.minCrewSize`, { min: 1, max: 10 });
+  const maxCrewSize = expectNumber(sizing.maxCrewSize, `${path}.maxCrewSize`, { min: minCrewSize, max: 10 });
+  if (!Number.isInteger(minCrewSize) || !Number.isInteger(maxCrewSize)) {
+    throw new PricingCatalogError(path, 'expected whole crew sizes');
+  }
+  return {
+    minCrewSize,
+    maxCrewSize,
+    targetOnSiteHours: expectNumber(sizing.targetOnSiteHours, `${path}.targetOnSiteHours`, { min: 1, max: 16 }),
+  };
+}
+
+function validateJobCosts(value: unknown, path: string): JobCostRates {
+  const costs = expectRecord(value, path);
+  const chemicals = expectRecord(costs.chemicalCostPerSqFt, `${path}.chemicalCostPerSqFt`);
+  return {
+    labourRatePerHour: expectNumber(costs.labourRatePerHour, `${path}.labourRatePerHour`),
+    crewSizing: validateCrewSizing(costs.crewSizing, `${path}.crewSizing`),
+    setupHoursPerCrewMember: expectNumber(costs.setupHoursPerCrewMember, `${path}.setupHoursPerCrewMember`, { max: 8 }),
+    washSqFtPerHour: expectNumber(costs.washSqFtPerHour, `${path}.washSqFtPerHour`, { min: 1 }),
+    storyLabourMultipliers: expectStoryMultiplierMap(costs.storyLabourMultipliers, `${path}.storyLabourMultipliers`),
+    serviceUnitsPerHour: expectUnitRates(
+      costs.serviceUnitsPerHour,
+      ['windowCleaning', 'gutterCleaning'] as const,
+      `${path}.serviceUnitsPerHour`
+    ),
+    addOnUnitsPerHour: expectUnitRates(costs.addOnUnitsPerHour, ADD_ON_KEYS, `${path}.addOnUnitsPerHour`),
+    chemicalCostPerSqFt: Object.fromEntries(
+      MATERIAL_TECHNIQUES.map((technique) => [
+        technique,
+        expectNumber(chemicals[technique], `${path}.chemicalCostPerSqFt.${technique}`),
+      ])
+    ) as Record<MaterialTechnique, number>,
+    vehicleCostPerKm: expectNumber(costs.vehicleCostPerKm, `${path}.vehicleCostPerKm`),
+    minimumMarginRate: expectNumber(costs.minimumMarginRate, `${path}.minimumMarginRate`, { max: 1 }),
+  };
+}
+
+function validateSqFtTiers(value: unknown, path: string): SqFtRateTier[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new PricingCatalogError(path, 'expected a non-empty array');
+  }
+
+  let previousBound = 0;
+  return value.map((rawTier, index) => {
+    const tierPath = `${path}[${index}]`;
+    const tier = expectRecord(rawTier, tierPath);
+    const isLast = index === value.length - 1;
+
+    // Only the last tier may be open-ended; bounds must strictly increase
+    let upToSqFt: number | null = null;
+    if (tier.upToSqFt !== null || !isLast) {
+      upToSqFt = expectNumber(tier.upToSqFt, `${tierPath}.upToSqFt`, { min: previousBound + 1 });
+      previousBound = upToSqFt;
+    }
+
+    return {
+      upToSqFt,
+      ratePerSqFt: expectNumber(tier.ratePerSqFt, `${tierPath}.ratePerSqFt`, { max: 10 }),
+    };
+  });
+}
+
+function expectInteger(value: unknown, path: string, range: { min?: number; max?: number }): number {
+  const number = expectNumber(value, path, range);
+  if (!Number.isInteger(number)) {
+    throw new PricingCatalogError(path, 'expected a whole number');
+  }
+  return number;
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+
+function expectTimeOfDay(value: unknown, path: string): string {
+  const time = expectString(value, path);
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+    throw new PricingCatalogError(path, 'expected a 24-hour "HH:MM" time');
+  }
+  return time;
+}
+
+function validateWorkingHours(value: unknown, path: string): Record<Weekday, WorkingHours | null> {
+  const days = expectRecord(value, path);
+  return Object.fromEntries(
+    WEEKDAYS.map((day) => {
+      if (days[day] === null) return [day, null];
+      const hours = expectRecord(days[day], `${path}.${day}`);
+      const start = expectTimeOfDay(hours.start, `${path}.${day}.start`);
+      const end = expectTimeOfDay(hours.end, `${path}.${day}.end`);
+      if (toMinutes(end) <= toMinutes(start)) {
+        throw new PricingCatalogError(`${path}.${day}`, 'expected end after start');
+      }
+      return [day, { start, end }];
+    })
+  ) as Record<Weekday, WorkingHours | null>;
+}
+
+// Crews start their day at a depot, so `depot` must name one in routing.depots
+function validateCrews(value: unknown, path: string, depots: Depot[]): Crew[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new PricingCatalogError(path, 'expected a non-empty array');
+  }
+
+  const seenKeys = new Set<string>();
+  return value.map((rawCrew, index) => {
+    const crewPath = `${path}[${index}]`;
+    const crew = expectRecord(rawCrew, crewPath);
+    const key = expectString(crew.key, `${crewPath}.key`);
+    if (seenKeys.has(key)) {
+      throw new PricingCatalogError(`${crewPath}.key`, `duplicate crew "${key}"`);
+    }
+    seenKeys.add(key);
+    return {
+      key,
+      name: expectString(crew.name, `${crewPath}.name`),
+      members: expectInteger(crew.members, `${crewPath}.members`, { min: 1, max: 10 }),
+      ...(crew.depot !== undefined && { depot: expectDepotName(crew.depot, `${crewPath}.depot`, depots) }),
+    };
+  });
+}
+
+function validateSchedule(value: unknown, path: string, depots: Depot[]): ScheduleRules {
+  const schedule = expectRecord(value, path);
+
+  const timeZone = expectString(schedule.timeZone, `${path}.timeZone`);
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone });
+  } catch {
+    throw new PricingCatalogError(`${path}.timeZone`, `unknown time zone "${timeZone}"`);
+  }
+
+  if (!Array.isArray(schedule.blackoutDates)) {
+    throw new PricingCatalogError(`${path}.blackoutDates`, 'expected an array');
+  }
+  const blackoutDates = schedule.blackoutDates.map((date, index) => {
+    const datePath = `${path}.blackoutDates[${index}]`;
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      throw new PricingCatalogError(datePath, 'expected a "YYYY-MM-DD" date');
+    }
+    return date;
+  });
+
+  return {
+    timeZone,
+    slotMinutes: expectInteger(schedule.slotMinutes, `${path}.slotMinutes`, { min: 15, max: 240 }),
+    bookingWindowDays: expectInteger(schedule.bookingWindowDays, `${path}.bookingWindowDays`, { min: 1, max: 120 }),
+    minimumNoticeDays: expectInteger(schedule.minimumNoticeDays, `${path}.minimumNoticeDays`, { min: 1, max: 30 }),
+    arrivalWindowMinutes: expectInteger(schedule.arrivalWindowMinutes, `${path}.arrivalWindowMinutes`, {
+      min: 0,
+      max: 240,
+    }),
+    workingHours: validateWorkingHours(schedule.workingHours, `${path}.workingHours`),
+    blackoutDates,
+    crews: validateCrews(schedule.crews, `${path}.crews`, depots),
+  };
+}
+
+/**
+ * Validate an untrusted catalog document and return it typed.
+ * Throws PricingCatalogError describing the first problem found.
+ */
+export function validatePricingCatalog(raw: unknown): PricingCatalog {
+  const doc = expectRecord(raw, '$');
+
+  const version = expectNumber(doc.version, 'version', { min: 1 });
+  if (!Number.isInteger(version)) {
+    throw new PricingCatalogError('version', 'expected an integer');
+  }
+
+  const baseRate = expectRecord(doc.baseRate, 'baseRate');
+  const storyMultipliers = expectStoryMultiplierMap(baseRate.storyMultipliers, 'baseRate.storyMultipliers');
+  const floor = expectNumber(baseRate.floor, 'baseRate.floor');
+  const cap = expectNumber(baseRate.cap, 'baseRate.cap', { min: floor });
+
+  const addOnsDoc = expectRecord(doc.addOns, 'addOns');
+  const addOns = Object.fromEntries(
+    ADD_ON_KEYS.map((key) => {
+      const path = `addOns.${key}`;
+      const rate = expectRecord(addOnsDoc[key], path);
+      return [
+        key,
+        {
+          label: expectString(rate.label, `${path}.label`),
+          unit: expectString(rate.unit, `${path}.unit`),
+          ratePerUnit: expectNumber(rate.ratePerUnit, `${path}.ratePerUnit`),
+          minimumCharge: expectNumber(rate.minimumCharge, `${path}.minimumCharge`),
+          defaultSize: expectNumber(rate.defaultSize, `${path}.defaultSize`, { min: 1 }),
+        },
+      ];
+    })
+  ) as Record<AddOnKey, AddOnRate>;
+
+  const routing = expectRecord(doc.routing, 'routing');
+  const maxServiceDistanceKm = expectNumber(routing.maxServiceDistanceKm, 'routing.maxServiceDistanceKm', { min: 1 });
+  const depots = validateDepots(routing.depots, 'routing.depots');
+
+  return {
+    version,
+    effectiveDate: expectString(doc.effectiveDate, 'effectiveDate'),
+    baseRate: {
+      sqFtTiers: validateSqFtTiers(baseRate.sqFtTiers, 'baseRate.sqFtTiers'),
+      storyMultipliers,
+      floor,
+      cap,
+    },
+    materials: validateMaterials(doc.materials, 'materials'),
+    conditions: validateConditions(doc.conditions, 'conditions'),
+    addOns,
+    services: validateServices(doc.services, 'services'),
+    packages: validatePackages(doc.packages, 'packages'),
+    promotions: validatePromotions(doc.promotions, 'promotions'),
+    tax: validateTax(doc.tax, 'tax'),
+    routing: {
+      maxServiceDistanceKm,
+      surchargeThresholdKm: expectNumber(routing.surchargeThresholdKm, 'routing.surchargeThresholdKm', {
+        max: maxServiceDistanceKm,
+      }),
+      surchargeRatePerKm: expectNumber(routing.surchargeRatePerKm, 'routing.surchargeRatePerKm'),
+      zones: validateZones(routing.zones, 'routing.zones'),
+      depots,
+    },
+    pricePolicy: validatePricePolicy(doc.pricePolicy, 'pricePolicy'),
+    jobCosts: validateJobCosts(doc.jobCosts, 'jobCosts'),
+    schedule: validateSchedule(doc.schedule, 'schedule', depots),
+  };
+}
+
+/**
+ * Bundled catalog, validated at module load so a bad edit fails the build
+ * instead of the first customer quote.
+ */
+export const DEFAULT_PRICING_CATALOG: PricingCatalog = validatePricingCatalog(bundledCatalog);
@@ -0,0 +1,158 @@
+/**
+ * ============================================================================
+ * BOOKING DEPOSITS
+ * ============================================================================
+ *
+ * PURPOSE:
+ * No-shows cost a crew day. Once a quote is accepted, the customer may pay
+ * a deposit through the configured payment provider (payment-providers.ts)
+ * to secure the booking. Deposits are optional and disabled unless
+ * PAYMENT_PROVIDER is set.
+ *
+ * AMOUNT:
+ * Deposit = accepted minimum price × pricePolicy.deposit.rate, at least
+ * pricePolicy.deposit.minimumAmount, never more than the accepted minimum.
+ *
+ * FLOW:
+ * 1. Checkout → startDepositCheckout opens a provider checkout session and
+ *    records it against the quote (recordDepositCheckout). Starting again
+ *    keeps the earlier sessions—a customer may still pay in an old tab
+ * 2. Webhook → confirmDepositPayment matches the paid session and amount to
+ *    a checkout this quote opened, then records `payment` (status →
+ *    depositPaid)
+ * 3. Receipt → the webhook route emails the customer and notifies the owner
+ *
+ * Only the webhook marks a deposit paid—the customer returning to the
+ * success URL proves nothing.
+ * ============================================================================
+ */
+import type { PricePolicy } from './catalog';
+import type { PaymentEvent, PaymentProvider } from './payment-providers';
+import {
+  getDepositCheckout,
+  getQuote,
+  getQuoteStatus,
+  recordDepositCheckout,
+  recordDepositPayment,
+  type AcceptedPrice,
+  type DepositPayment,
+  type DepositRequest,
+  type StoredQuote,
+} from './quote-store';
+
+export const DEPOSIT_CURRENCY = 'cad';
+
+/**
+ * Why a deposit checkout or payment was rejected
+ */
+export enum DepositError {
+  NOT_ACCEPTED = 'NOT_ACCEPTED',
+  ALREADY_PAID = 'ALREADY_PAID',
+  PROVIDER_ERROR = 'PROVIDER_ERROR',
+  UNKNOWN_QUOTE = 'UNKNOWN_QUOTE',
+  SESSION_MISMATCH = 'SESSION_MISMATCH',
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH',
+}
+
+export interface DepositCheckoutResult {
+  checkoutUrl?: string;
+  deposit?: DepositRequest;
+  error?: DepositError;
+}
+
+export interface DepositPaymentResult {
+  quote?: StoredQuote;
+  payment?: DepositPayment;
+  error?: DepositError;
+}
+
+/**
+ * Deposit due on an accepted price, in dollars.
+ */
+export function getDepositAmount(price: AcceptedPrice, policy: PricePolicy): number {
+  const amount = Math.max(price.minPrice * policy.deposit.rate, policy.deposit.minimumAmount);
+  return Math.round(Math.min(amount, price.minPrice) * 100) / 100;
+}
+
+/**
+ * Open a checkout session for an accepted quote's deposit.
+ * `quoteUrl` is the customer's tokenized /quote/[id] link to return to.
+ */
+export async function startDepositCheckout(
+  stored: StoredQuote,
+  provider: PaymentProvider,
+  policy: PricePolicy,
+  quoteUrl: string
+): Promise<DepositCheckoutResult> {
+  if (!stored.acceptance) {
+    return { error: DepositError.NOT_ACCEPTED };
+  }
+  if (stored.payment) {
+    return { error: DepositError.ALREADY_PAID };
+  }
+
+  const amount = getDepositAmount(stored.acceptance.price, policy);
+  const checkout = await provider.createCheckout({
+    quoteId: stored.id,
+    amount,
+    currency: DEPOSIT_CURRENCY,
+    description: `Booking deposit for quote ${stored.id}`,
+    customerEmail: stored.input.customerEmail,
+    successUrl: `${quoteUrl}&deposit=success`,
+    cancelUrl: `${quoteUrl}&deposit=cancelled`,
+  });
+  if (checkout.error || !checkout.sessionId || !checkout.checkoutUrl) {
+    return { error: DepositError.PROVIDER_ERROR };
+  }
+
+  // Starting again (e.g. after cancelling) keeps the earlier sessions payable
+  const deposit: DepositRequest = {
+    amount,
+    currency: DEPOSIT_CURRENCY,
+    provider: provider.name,
+    sessionId: checkout.sessionId,
+    requestedAt: new Date().toISOString(),
+  };
+  await recordDepositCheckout(stored.id, deposit);
+  return { checkoutUrl: checkout.checkoutUrl, deposit };
+}
+
+/**
+ * Record a provider-confirmed payment against its quote.
+ * ALREADY_PAID means a retried webhook—acknowledge it without a new receipt.
+ */
+export async function confirmDepositPayment(
+  event: PaymentEvent,
+  provider: PaymentProvider
+): Promise<DepositPaymentResult> {
+  const stored = await getQuote(event.quoteId);
+  if (!stored) {
+    return { error: DepositError.UNKNOWN_QUOTE };
+  }
+  if (stored.payment) {
+    return { quote: stored, error: DepositError.ALREADY_PAID };
+  }
+
+  // Any checkout we opened counts, for exactly the amount asked in that session
+  const checkout = await getDepositCheckout(stored.id, event.sessionId);
+  if (!checkout || checkout.provider !== provider.name) {
+    return { quote: stored, error: DepositError.SESSION_MISMATCH };
+  }
+  if (Math.round(event.amount * 100) !== Math.round(checkout.amount * 100) || event.currency !== checkout.currency) {
+    return { quote: stored, error: DepositError.AMOUNT_MISMATCH };
+  }
+
+  const payment: DepositPayment = {
+    amount: event.amount,
+    currency: event.currency,
+    provider: provider.name,
+    sessionId: event.sessionId,
+    paymentId: event.paymentId,
+    paidAt: event.paidAt,
+  };
+  if (!(await recordDepositPayment(stored.id, payment))) {
+    return { quote: stored, error: DepositError.ALREADY_PAID };
+  }
+  const quote = { ...stored, payment };
+  return { quote: { ...quote, status: getQuoteStatus(quote) }, payment };
+}
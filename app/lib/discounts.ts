@@ -0,0 +1,135 @@
+/**
+ * ============================================================================
+ * PROMO CODE & DISCOUNT ENGINE
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Honours promotion codes (spring specials, flyer codes) defined in the
+ * pricing catalog's `promotions` list.
+ *
+ * RULES (checked in order, first failure wins):
+ * 1. Code exists in the catalog (case-insensitive)
+ * 2. Validity window: validFrom ≤ now < validUntil
+ * 3. Eligibility: at least one quoted service is covered by the promotion
+ * 4. Minimum order: pre-travel order value ≥ minimumOrder
+ * 5. Usage cap: checked when quoting, counted atomically in Redis when the
+ *    discounted quote is accepted (promo-usage.ts)
+ *
+ * WHAT GETS DISCOUNTED:
+ * Only the eligible services' prices. Add-ons and travel surcharge are never
+ * discounted—travel is a cost recovery, not margin.
+ * ============================================================================
+ */
+import type { Promotion, PricingCatalog, ServiceKey } from './catalog';
+
+export type { Promotion } from './catalog';
+
+/**
+ * Error types for promo code validation
+ */
+export enum PromoError {
+  INVALID_CODE = 'INVALID_CODE',
+  NOT_YET_VALID = 'NOT_YET_VALID',
+  EXPIRED = 'EXPIRED',
+  NOT_ELIGIBLE = 'NOT_ELIGIBLE',
+  BELOW_MINIMUM = 'BELOW_MINIMUM',
+  USAGE_LIMIT_REACHED = 'USAGE_LIMIT_REACHED',
+}
+
+/**
+ * Discount line item shown in the breakdown
+ */
+export interface DiscountLineItem {
+  code: string;
+  label: string;
+  amount: number; // Dollars off (positive number, subtracted from total)
+}
+
+/**
+ * Amounts the discount engine needs from the quote being priced
+ */
+export interface DiscountContext {
+  serviceAmounts: Partial<Record<ServiceKey, number>>; // Price per quoted service
+  orderValue: number;                                   // Services + add-ons, before travel
+  now?: Date;
+}
+
+export interface DiscountResult {
+  discount?: DiscountLineItem;
+  error?: PromoError;
+}
+
+/**
+ * Look up a promotion by customer-entered code.
+ */
+export function findPromotion(code: string, catalog: PricingCatalog): Promotion | undefined {
+  const normalizedCode = code.trim().toUpperCase();
+  if (!normalizedCode) return undefined;
+  return catalog.promotions.find((promotion) => promotion.code === normalizedCode);
+}
+
+/**
+ * Evaluate a promotion against a priced quote.
+ * Returns the discount line item, or the first rule that rejected it.
+ */
+export function calculateDiscount(
+  promotion: Promotion,
+  { serviceAmounts, orderValue, now = new Date() }: DiscountContext
+): DiscountResult {
+  // VALIDITY WINDOW: Promotions only run for their advertised dates
+  const timestamp = now.getTime();
+  if (timestamp < Date.parse(promotion.validFrom)) {
+    return { error: PromoError.NOT_YET_VALID };
+  }
+  if (timestamp >= Date.parse(promotion.validUntil)) {
+    return { error: PromoError.EXPIRED };
+  }
+
+  // ELIGIBILITY: Discount only the services the promotion covers
+  const eligibleAmount = promotion.services.reduce(
+    (sum, service) => sum + (serviceAmounts[service] ?? 0),
+    0
+  );
+  if (eligibleAmount <= 0) {
+    return { error: PromoError.NOT_ELIGIBLE };
+  }
+
+  // MINIMUM ORDER: Protects margin on small jobs
+  if (orderValue < promotion.minimumOrder) {
+    return { error: PromoError.BELOW_MINIMUM };
+  }
+
+  // Fixed discounts never exceed what they apply to
+  const rawAmount =
+    promotion.type === 'percentage'
+      ? eligibleAmount * (promotion.value / 100)
+      : Math.min(promotion.value, eligibleAmount);
+
+  return {
+    discount: {
+      code: promotion.code,
+      label: promotion.label,
+      amount: Math.round(rawAmount * 100) / 100,
+    },
+  };
+}
+
+/**
+ * Customer-facing explanation for a rejected promo code.
+ */
+export function getPromoErrorMessage(error: PromoError, promotion?: Promotion): string {
+  switch (error) {
+    case PromoError.INVALID_CODE:
+      return 'That promo code was not recognized.';
+    case PromoError.NOT_YET_VALID:
+      return 'That promo code is not active yet.';
+    case PromoError.EXPIRED:
+      return 'That promo code has expired.';
+    case PromoError.NOT_ELIGIBLE:
+      return 'That promo code does not apply to the selected services.';
+    case PromoError.BELOW_MINIMUM:
+      return `That promo code requires a minimum order of $${promotion?.minimumOrder ?? 0}.`;
+    case PromoError.USAGE_LIMIT_REACHED:
+      return 'That promo code has reached its usage limit.';
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * ============================================================================
+ * JOB DURATION ESTIMATOR
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Predicts how long a quoted job takes and how many crew members it needs,
+ * so quotes can feed the schedule (and the booking flow).
+ *
+ * MODEL:
+ * ├─ Work: person-hours from the priced quote's measured lines
+ * │  ├─ Wash: sq ft ÷ productivity × story × material × condition
+ * │  └─ Services & add-ons: measured units ÷ units per person-hour
+ * ├─ Crew: enough hands to finish near the target on-site hours,
+ * │  clamped to the catalog's min/max crew size
+ * ├─ On site: setup + work ÷ crew, rounded up to the quarter hour
+ * └─ Travel: round-trip drive time from the routing result
+ *
+ * Productivity rates live in the catalog's `jobCosts` section, shared with
+ * the cost model (job-cost.ts).
+ * ============================================================================
+ */
+import type { PricingCatalog } from './catalog';
+import { getStoryMultiplier, type QuoteBreakdown } from './pricing';
+
+/**
+ * Priced quote fields the labour model reads
+ */
+export type EstimatedQuote = Pick<
+  QuoteBreakdown,
+  'basePrice' | 'materialMultiplier' | 'conditionMultiplier' | 'technique' | 'total' | 'breakdown'
+>;
+
+/**
+ * Job duration estimation input interface
+ */
+export interface JobDurationInput {
+  quote: EstimatedQuote;
+  squareFeet: number;
+  stories: number;
+  driveMinutes: number; // One way, from RoutingResult.durationMinutes
+}
+
+/**
+ * Job duration estimate interface
+ */
+export interface JobDuration {
+  crewSize: number;
+  onSiteHours: number;   // Wall-clock hours at the property
+  personHours: number;   // Crew labour at the property (setup included)
+  travelMinutes: number; // Round trip
+  totalHours: number;    // On site + travel: how much of the crew's day it takes
+}
+
+/**
+ * Estimate person-hours of work at the property, before setup.
+ * The material and condition multipliers price extra care and scrubbing,
+ * so they scale the wash hours the same way they scale its price.
+ */
+export function estimateWorkHours(
+  { quote, squareFeet, stories }: Pick<JobDurationInput, 'quote' | 'squareFeet' | 'stories'>,
+  catalog: PricingCatalog
+): number {
+  const rates = catalog.jobCosts;
+  let hours = 0;
+
+  // Only house wash quotes carry a base price
+  if (quote.basePrice > 0) {
+    hours +=
+      (Math.max(Number(squareFeet) || 0, 0) / rates.washSqFtPerHour) *
+      getStoryMultiplier(rates.storyLabourMultipliers, stories) *
+      quote.materialMultiplier *
+      quote.conditionMultiplier;
+  }
+
+  quote.breakdown.services.forEach((item) => {
+    hours += item.quantity / rates.serviceUnitsPerHour[item.key];
+  });
+  quote.breakdown.addOns.forEach((item) => {
+    hours += item.quantity / rates.addOnUnitsPerHour[item.key];
+  });
+
+  return hours;
+}
+
+/**
+ * Estimate crew size, on-site hours and total time for a priced quote.
+ */
+export function estimateJobDuration(input: JobDurationInput, catalog: PricingCatalog): JobDuration {
+  const { setupHoursPerCrewMember, crewSizing } = catalog.jobCosts;
+  const workHours = estimateWorkHours(input, catalog);
+
+  // CREW SIZE: Smallest crew that finishes the work within the target day
+  const crewSize = Math.min(
+    Math.max(Math.ceil(workHours / crewSizing.targetOnSiteHours), crewSizing.minCrewSize),
+    crewSizing.maxCrewSize
+  );
+
+  // Everyone sets up at once, then the work splits across the crew
+  const onSiteHours = Math.ceil((setupHoursPerCrewMember + workHours / crewSize) * 4) / 4;
+  const travelMinutes = Math.max(Math.round(input.driveMinutes * 2), 0);
+
+  return {
+    crewSize,
+    onSiteHours,
+    personHours: Math.round((setupHoursPerCrewMember * crewSize + workHours) * 100) / 100,
+    travelMinutes,
+    totalHours: Math.ceil((onSiteHours + travelMinutes / 60) * 4) / 4,
+  };
+}
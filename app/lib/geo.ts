@@ -0,0 +1,73 @@
+/**
+ * Geometry helpers for service zones (GeoJSON polygons).
+ *
+ * Coordinates follow GeoJSON order: [longitude, latitude].
+ * Polygons are an outer ring followed by optional holes.
+ */
+
+export type Position = [number, number];
+
+export type PolygonCoordinates = Position[][];
+
+export type ZoneGeometry =
+  | { type: 'Polygon'; coordinates: PolygonCoordinates }
+  | { type: 'MultiPolygon'; coordinates: PolygonCoordinates[] };
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Whether untrusted input is a real latitude/longitude (0 is valid).
+ */
+export function isValidCoordinates(point: { lat: unknown; lng: unknown }): point is Coordinates {
+  const { lat, lng } = point;
+  return (
+    typeof lat === 'number' && Number.isFinite(lat) && Math.abs(lat) <= 90 &&
+    typeof lng === 'number' && Number.isFinite(lng) && Math.abs(lng) <= 180
+  );
+}
+
+// Ray casting: count edge crossings of a horizontal ray from the point
+function isPointInRing({ lat, lng }: Coordinates, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    const crosses =
+      latI > lat !== latJ > lat &&
+      lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function isPointInPolygon(point: Coordinates, [outerRing, ...holes]: PolygonCoordinates): boolean {
+  return isPointInRing(point, outerRing) && !holes.some((hole) => isPointInRing(point, hole));
+}
+
+/**
+ * Whether a point falls inside a Polygon or MultiPolygon.
+ */
+export function isPointInGeometry(point: Coordinates, geometry: ZoneGeometry): boolean {
+  return geometry.type === 'Polygon'
+    ? isPointInPolygon(point, geometry.coordinates)
+    : geometry.coordinates.some((polygon) => isPointInPolygon(point, polygon));
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle (straight-line) distance between two points, in kilometres.
+ */
+export function haversineDistanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
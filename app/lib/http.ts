@@ -0,0 +1,87 @@
+/**
+ * Request and email helpers shared by the API routes.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+// UTILITY: Extract client IP for rate limiting (respects proxy headers)
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || '127.0.0.1';
+}
+
+// Local requests skip rate limiting during development
+export function isLocalhost(clientIp: string): boolean {
+  return clientIp === '127.0.0.1' || clientIp === '::1';
+}
+
+// ADMIN ACCESS: `x-admin-token` header must match ADMIN_API_TOKEN (unset = no admin access)
+export function isAdminRequest(request: NextRequest): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const provided = request.headers.get('x-admin-token');
+  if (!expected || !provided) {
+    return false;
+  }
+  // Compare byte lengths—timingSafeEqual throws on a mismatch, and multibyte
+  // characters make string lengths differ from buffer lengths
+  const providedBytes = Buffer.from(provided);
+  const expectedBytes = Buffer.from(expected);
+  return providedBytes.length === expectedBytes.length && timingSafeEqual(providedBytes, expectedBytes);
+}
+
+// SIGNED LINKS: Admin pages a browser can open without the header, valid briefly
+const SIGNED_LINK_TTL_SECONDS = 15 * 60;
+
+// HMAC over the path and every query parameter but `signature`, in sorted order
+function signAdminLink(url: URL, secret: string): string {
+  const params = new URLSearchParams(url.searchParams);
+  params.delete('signature');
+  params.sort();
+  return createHmac('sha256', secret).update(`${url.pathname}?${params}`).digest('hex');
+}
+
+// `url` with `expires` and `signature` added; undefined when ADMIN_API_TOKEN is unset
+export function createSignedAdminUrl(url: URL, now = Date.now()): string | undefined {
+  const secret = process.env.ADMIN_API_TOKEN;
+  if (!secret) {
+    return undefined;
+  }
+  const signed = new URL(url);
+  signed.searchParams.set('expires', String(Math.floor(now / 1000) + SIGNED_LINK_TTL_SECONDS));
+  signed.searchParams.set('signature', signAdminLink(signed, secret));
+  return signed.toString();
+}
+
+// A link from createSignedAdminUrl, unexpired and unaltered
+export function isSignedAdminRequest(request: NextRequest, now = Date.now()): boolean {
+  const secret = process.env.ADMIN_API_TOKEN;
+  const { searchParams } = request.nextUrl;
+  const expires = Number(searchParams.get('expires'));
+  if (!secret || !Number.isInteger(expires) || expires <= now / 1000 || expires > now / 1000 + SIGNED_LINK_TTL_SECONDS) {
+    return false;
+  }
+  const provided = Buffer.from(searchParams.get('signature') ?? '');
+  const expected = Buffer.from(signAdminLink(request.nextUrl, secret));
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+// VALIDATION: RFC 5321 email format check
+export function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email) && email.length <= 254;
+}
+
+// SECURITY: HTML entity encoding prevents XSS in email templates
+export function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+  return text.replace(/[&<>"']/g, (char) => map[char]);
+}
@@ -0,0 +1,92 @@
+/**
+ * ============================================================================
+ * JOB COST & MARGIN MODEL
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Estimates what a quoted job costs to deliver, so the owner sees the margin
+ * on every lead instead of trusting the rate sheet's rationale comments.
+ *
+ * COST COMPONENTS:
+ * ├─ Labour: person-hours × loaded wage
+ * │  ├─ On site: setup + work, crew sized by the duration estimator
+ * │  └─ Round-trip drive time for the whole crew
+ * ├─ Chemicals: siding sq ft × technique rate (soft wash mix costs more)
+ * └─ Vehicle: round-trip routed km × fuel + depreciation
+ *
+ * MARGIN:
+ * Revenue is the pre-tax total (tax is remitted, not earned)—the low end of
+ * the quoted range. Quotes under `jobCosts.minimumMarginRate` are flagged.
+ *
+ * Rates live in the catalog's `jobCosts` section. Owner-only: estimates are
+ * emailed to the owner and never returned to customers.
+ * ============================================================================
+ */
+import type { PricingCatalog } from './catalog';
+import { estimateJobDuration, type JobDuration, type JobDurationInput } from './duration';
+
+/**
+ * Job cost estimation input interface
+ */
+export interface JobCostInput extends JobDurationInput {
+  distanceKm: number; // One way, from the dispatch depot
+}
+
+/**
+ * Job cost and margin estimate interface
+ */
+export interface JobCostEstimate {
+  onSiteHours: number; // Person-hours at the property
+  driveHours: number;  // Person-hours on the road, round trip
+  labour: number;
+  chemicals: number;
+  vehicle: number;
+  total: number;
+  revenue: number;     // Pre-tax quote total
+  margin: number;      // Revenue − cost, in dollars
+  marginRate: number;  // Margin as a fraction of revenue
+  belowMinimumMargin: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Estimate the delivery cost and margin of a priced quote.
+ * Pass the quote's duration estimate when it's already been computed.
+ */
+export function estimateJobCost(
+  input: JobCostInput,
+  catalog: PricingCatalog,
+  duration: JobDuration = estimateJobDuration(input, catalog)
+): JobCostEstimate {
+  const rates = catalog.jobCosts;
+  const { quote, squareFeet, distanceKm } = input;
+
+  const onSiteHours = duration.personHours;
+  const driveHours = round2((duration.travelMinutes / 60) * duration.crewSize);
+  const labour = round2((onSiteHours + driveHours) * rates.labourRatePerHour);
+
+  // Chemicals are only mixed for the house wash
+  const chemicals = quote.basePrice > 0
+    ? round2(Math.max(Number(squareFeet) || 0, 0) * rates.chemicalCostPerSqFt[quote.technique])
+    : 0;
+  const vehicle = round2(distanceKm * 2 * rates.vehicleCostPerKm);
+
+  const total = round2(labour + chemicals + vehicle);
+  const revenue = quote.total;
+  const margin = round2(revenue - total);
+  const marginRate = revenue > 0 ? Math.round((margin / revenue) * 1000) / 1000 : 0;
+
+  return {
+    onSiteHours,
+    driveHours,
+    labour,
+    chemicals,
+    vehicle,
+    total,
+    revenue,
+    margin,
+    marginRate,
+    belowMinimumMargin: marginRate < rates.minimumMarginRate,
+  };
+}
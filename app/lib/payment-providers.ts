@@ -0,0 +1,265 @@
+/**
+ * ============================================================================
+ * PAYMENT PROVIDERS
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Booking deposits (deposits.ts) are taken on a hosted checkout page and
+ * confirmed by webhook. Which payment processor does that is pluggable:
+ *
+ * ├─ stripe: Stripe Checkout Sessions (REST API, no SDK)
+ * └─ fake:   Local checkout that "pays" instantly—development only (refused
+ *            when NODE_ENV=production)
+ *
+ * CONFIGURATION (environment):
+ * • PAYMENT_PROVIDER: stripe | fake (unset = deposits disabled)
+ * • STRIPE_SECRET_KEY: Stripe API secret key
+ * • STRIPE_WEBHOOK_SECRET: Signing secret of the webhook endpoint
+ *
+ * CONTRACT:
+ * Providers never throw. Checkout returns a URL to send the customer to;
+ * webhooks are verified and turned into a provider-neutral PaymentEvent,
+ * or nothing for event types we don't act on.
+ * ============================================================================
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Error types for payment provider calls
+ */
+export enum PaymentError {
+  API_ERROR = 'API_ERROR',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  INVALID_PAYLOAD = 'INVALID_PAYLOAD',
+}
+
+export const PAYMENT_PROVIDER_NAMES = ['stripe', 'fake'] as const;
+
+export type PaymentProviderName = (typeof PAYMENT_PROVIDER_NAMES)[number];
+
+/**
+ * One-off charge for a quote's booking deposit
+ */
+export interface CheckoutRequest {
+  quoteId: string;
+  amount: number;        // Dollars
+  currency: string;      // ISO 4217, lowercase, e.g. "cad"
+  description: string;   // Shown on the checkout page and the card statement
+  customerEmail: string;
+  successUrl: string;    // Where the customer lands after paying
+  cancelUrl: string;     // Where the customer lands after backing out
+}
+
+export interface CheckoutResult {
+  sessionId?: string;
+  checkoutUrl?: string;
+  error?: PaymentError;
+}
+
+/**
+ * Completed payment, as reported by the provider's webhook
+ */
+export interface PaymentEvent {
+  quoteId: string;
+  sessionId: string;
+  paymentId: string;  // Provider's payment reference (for refunds and disputes)
+  amount: number;     // Dollars
+  currency: string;
+  paidAt: string;     // ISO timestamp
+}
+
+export interface WebhookResult {
+  event?: PaymentEvent; // Absent for event types we ignore
+  error?: PaymentError;
+}
+
+/**
+ * Payment provider interface
+ */
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutResult>;
+  parseWebhook(payload: string, headers: Headers): Promise<WebhookResult>;
+}
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 5 * 60; // Rejects replayed webhooks
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Stripe-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.payload">[,v1=...]
+function isValidStripeSignature(payload: string, header: string | null, secret: string, now = Date.now()): boolean {
+  if (!header) return false;
+  const parts = header.split(',').map((part) => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex'));
+  return parts
+    .filter(([key]) => key === 'v1')
+    .some(([, signature]) => {
+      const provided = Buffer.from(signature ?? '');
+      return provided.length === expected.length && timingSafeEqual(provided, expected);
+    });
+}
+
+/**
+ * Stripe Checkout: one session per deposit, confirmed by the
+ * `checkout.session.completed` webhook.
+ */
+export function createStripePaymentProvider(
+  secretKey: string | undefined,
+  webhookSecret: string | undefined
+): PaymentProvider {
+  return {
+    name: 'stripe',
+    async createCheckout(request) {
+      if (!secretKey) {
+        console.error('STRIPE_SECRET_KEY not configured');
+        return { error: PaymentError.API_ERROR };
+      }
+
+      // Stripe's API takes form-encoded bodies with bracketed nested keys
+      const body = new URLSearchParams({
+        mode: 'payment',
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        customer_email: request.customerEmail,
+        client_reference_id: request.quoteId,
+        'metadata[quoteId]': request.quoteId,
+        'payment_intent_data[metadata][quoteId]': request.quoteId,
+        'line_items[0][quantity]': '1',
+        'line_items[0][price_data][currency]': request.currency,
+        'line_items[0][price_data][unit_amount]': String(toCents(request.amount)),
+        'line_items[0][price_data][product_data][name]': request.description,
+      });
+
+      try {
+        const response = await fetch(`${STRIPE_API_URL}/checkout/sessions`, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${secretKey}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body,
+        });
+        const data = await response.json();
+
+        if (!response.ok || typeof data.url !== 'string') {
+          console.error('Stripe checkout session failed:', response.status, data.error?.message);
+          return { error: PaymentError.API_ERROR };
+        }
+        return { sessionId: data.id, checkoutUrl: data.url };
+      } catch (error) {
+        console.error('Stripe request error:', error);
+        return { error: PaymentError.API_ERROR };
+      }
+    },
+
+    async parseWebhook(payload, headers) {
+      if (!webhookSecret) {
+        console.error('STRIPE_WEBHOOK_SECRET not configured');
+        return { error: PaymentError.INVALID_SIGNATURE };
+      }
+      if (!isValidStripeSignature(payload, headers.get('stripe-signature'), webhookSecret)) {
+        return { error: PaymentError.INVALID_SIGNATURE };
+      }
+
+      try {
+        const event = JSON.parse(payload);
+        const session = event.data?.object;
+        // Card payments are paid on completion; delayed methods aren't offered
+        if (event.type !== 'checkout.session.completed' || session?.payment_status !== 'paid') {
+          return {};
+        }
+
+        const quoteId = session.metadata?.quoteId ?? session.client_reference_id;
+        if (typeof quoteId !== 'string' || typeof session.amount_total !== 'number') {
+          return { error: PaymentError.INVALID_PAYLOAD };
+        }
+        return {
+          event: {
+            quoteId,
+            sessionId: session.id,
+            paymentId: session.payment_intent ?? session.id,
+            amount: session.amount_total / 100,
+            currency: session.currency,
+            paidAt: new Date(event.created * 1000).toISOString(),
+          },
+        };
+      } catch {
+        return { error: PaymentError.INVALID_PAYLOAD };
+      }
+    },
+  };
+}
+
+/**
+ * Local provider for development: checkout goes to /api/payments/fake-checkout,
+ * which immediately posts an unsigned completion webhook back to this app.
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    name: 'fake',
+    async createCheckout(request) {
+      const sessionId = `fake_${randomBytes(12).toString('hex')}`;
+      const params = new URLSearchParams({
+        session: sessionId,
+        quote: request.quoteId,
+        amount: String(request.amount),
+        currency: request.currency,
+        success: request.successUrl,
+      });
+      return { sessionId, checkoutUrl: `/api/payments/fake-checkout?${params}` };
+    },
+
+    async parseWebhook(payload) {
+      try {
+        const event = JSON.parse(payload) as Partial<PaymentEvent>;
+        if (typeof event.quoteId !== 'string' || typeof event.sessionId !== 'string' || typeof event.amount !== 'number') {
+          return { error: PaymentError.INVALID_PAYLOAD };
+        }
+        return {
+          event: {
+            quoteId: event.quoteId,
+            sessionId: event.sessionId,
+            paymentId: `fake_payment_${event.sessionId.slice(5)}`,
+            amount: event.amount,
+            currency: event.currency ?? 'cad',
+            paidAt: new Date().toISOString(),
+          },
+        };
+      } catch {
+        return { error: PaymentError.INVALID_PAYLOAD };
+      }
+    },
+  };
+}
+
+/**
+ * Build the provider selected by PAYMENT_PROVIDER.
+ * Undefined when deposits are not enabled.
+ */
+export function getPaymentProvider(env: Record<string, string | undefined> = process.env): PaymentProvider | undefined {
+  const name = env.PAYMENT_PROVIDER?.trim().toLowerCase();
+
+  switch (name) {
+    case undefined:
+    case '':
+      return undefined;
+    case 'stripe':
+      return createStripePaymentProvider(env.STRIPE_SECRET_KEY, env.STRIPE_WEBHOOK_SECRET);
+    case 'fake':
+      // Fake webhooks are unsigned—never accept them in production
+      if (env.NODE_ENV === 'production') {
+        console.warn('PAYMENT_PROVIDER=fake is not allowed in production, deposits disabled');
+        return undefined;
+      }
+      return createFakePaymentProvider();
+    default:
+      console.warn(`Unknown PAYMENT_PROVIDER "${name}", deposits disabled`);
+      return undefined;
+  }
+}
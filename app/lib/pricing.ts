@@ -8,19 +8,67 @@
  * routing with material-based risk pricing:
  *
  * Stage 1: Distance Matrix Routing
- * ├─ Calls Google Maps Distance Matrix API with business origin
+ * ├─ Asks the routing provider (Google, OSRM, haversine) for driving legs from
+ * │  every dispatch depot in one request
  * ├─ Calculates actual driving distance (not straight-line)
+ * ├─ Dispatches from the depot with the cheapest travel surcharge
+ * ├─ SERVICE ZONES: GeoJSON polygons set a flat travel fee or reject outright
+ * │  (river crossings, bridges, downtown cores); km rule applies outside zones
  * ├─ GUARDRAIL: Rejects jobs > 45km (unprofitable service radius)
  * └─ OPTIMIZATION: Applies tiered surcharging ($2.50/km beyond 20km)
  *
- * Stage 2: Material Risk Adjustment
+ * Stage 2: Size-Based Base Rate
+ * ├─ Tiered per-sq-ft rates (marginal, like tax brackets)
+ * ├─ Story multiplier for ladder work / reach on taller homes
+ * └─ Floor and cap keep tiny and near-estate homes in a sane range
+ *
+ * Stage 3: Material Risk Adjustment
  * ├─ Multiplies base rate by material complexity factor
  * ├─ Vinyl (1.0x): Standard—common, predictable surfaces
  * ├─ Brick (1.1x): Moderate complexity—harder surface, risk of damage
- * └─ Stucco (1.35x): High complexity—delicate, specialized techniques
+ * ├─ Stucco (1.35x): High complexity—delicate, specialized techniques
+ * ├─ Each material also sets the technique (soft wash vs pressure wash)
+ * └─ Stone veneer, wood shake, mixed: manual review—never priced online
+ *
+ * Stage 4: Property Condition (house wash only)
+ * ├─ Algae/moss level, years since last wash, heavy oxidation, landscaping
+ * ├─ Factors multiply together, capped by the catalog (2.0x by default)
+ * └─ Shown as its own breakdown line
+ *
+ * Stage 5: Standalone Services (optional, with or without a wash)
+ * ├─ Window Cleaning: per-pane rates (exterior/interior) + ladder surcharge
+ * └─ Gutter Cleaning: per-linear-foot rate scaled by storey
+ *
+ * Stage 6: Add-on Line Items
+ * ├─ Driveway & Deck/Patio priced per square foot
+ * ├─ Gutters priced per linear foot
+ * └─ Each add-on carries a minimum charge (truck roll + setup)
+ *
+ * Stage 7: Promo Discount (optional, see discounts.ts)
+ * └─ Percentage or fixed amount off eligible services only
+ *
+ * Stage 8: Canadian Sales Tax
+ * ├─ Province detected from the address (defaults to BC)
+ * ├─ GST/HST/PST/QST rates configured per province in the catalog
+ * └─ Tax-exempt customers get no tax lines
+ *
+ * Stage 9: Price Policy
+ * ├─ Minimum job charge: small jobs are topped up to a truck-roll floor
+ * ├─ Quoted prices round to the nearest $5 (or $25, per catalog)
+ * └─ Range width per service and per material risk level (widest wins)
+ *
+ * PRICING TRACE:
+ * Every rule that fires is recorded, in order, with its inputs and output
+ * (`QuoteBreakdown.trace`), so a disputed price can be reconstructed exactly.
+ *
+ * PRICING CATALOG:
+ * Every rate below is read from a versioned catalog document (catalog.ts),
+ * and each quote is stamped with the catalog version that priced it.
  *
  * PRICING FORMULA:
- * Quote = (Base Rate × Material Multiplier) + Travel Surcharge
+ * Base Rate = clamp(Tiered Sq Ft Rate × Story Multiplier, $275, $1,200)
+ * Pre-Tax = max((Base Rate × Material × Condition) + Services + Add-ons − Discount + Travel Surcharge, Minimum)
+ * Quote = round(Pre-Tax + Sales Tax) to round(… × (1 + Range Width))
  *
  * BUSINESS IMPACT:
  * • Eliminates unprofitable long-distance jobs automatically
@@ -29,34 +77,72 @@
  * ============================================================================
  */
 
+import {
+  ADD_ON_KEYS,
+  ALGAE_LEVELS,
+  DEFAULT_PRICING_CATALOG,
+  SERVICE_KEYS,
+  type AddOnKey,
+  type AlgaeLevel,
+  type Depot,
+  type MaterialRate,
+  type MaterialTechnique,
+  type PricingCatalog,
+  type RiskLevel,
+  type ServiceKey,
+  type ServicePackage,
+} from './catalog';
+import {
+  calculateDiscount,
+  type DiscountLineItem,
+  type PromoError,
+  type Promotion,
+} from './discounts';
+import { isPointInGeometry, type Coordinates } from './geo';
+import {
+  createHaversineRoutingProvider,
+  getRoutingProvider,
+  RoutingError,
+  type RoutingProvider,
+} from './routing-providers';
+
+export { ALGAE_LEVELS, MATERIAL_TECHNIQUES, SERVICE_KEYS } from './catalog';
+export { SERVICE_LABELS, TECHNIQUE_LABELS } from './catalog-keys';
+export type {
+  AddOnKey,
+  AlgaeLevel,
+  MaterialRate,
+  MaterialTechnique,
+  PricingCatalog,
+  ServiceKey,
+  ServicePackage,
+} from './catalog';
+export type { DiscountLineItem } from './discounts';
+export { RoutingError } from './routing-providers';
+
+// Single-origin fallback when the catalog lists no depots
 const BUSINESS_ORIGIN = process.env.OWNER_ADDRESS || 'Langley, BC, Canada';
 
-const BASE_RATE_PER_STORY = {
-  1: 350,
-  2: 500,
-  3: 650,
-} as const;
+// Coordinates of BUSINESS_ORIGIN for coordinate-based routing providers
+const BUSINESS_LOCATION: Coordinates | undefined =
+  process.env.OWNER_LAT && process.env.OWNER_LNG
+    ? { lat: Number(process.env.OWNER_LAT), lng: Number(process.env.OWNER_LNG) }
+    : process.env.OWNER_ADDRESS
+      ? undefined
+      : { lat: 49.1044, lng: -122.6604 }; // Langley, BC
 
-const MATERIAL_MULTIPLIERS: Record<string, number> = {
-  'vinyl': 1.0,
-  'brick': 1.1,
-  'stucco': 1.35,
-};
+// All rates (size tiers, story/material multipliers, add-on rates, routing
+// thresholds, margin buffer) come from the versioned pricing catalog.
+// See catalog.ts—bundled defaults live in pricing-catalog.json.
 
-const ROUTING_CONFIG = {
-  MAX_SERVICE_DISTANCE_KM: 45,
-  SURCHARGE_THRESHOLD_KM: 20,
-  SURCHARGE_RATE_PER_KM: 2.50,
-};
+// Upper bound on any single add-on measurement (guards against typos like 60000)
+const MAX_ADD_ON_SIZE = 5000;
 
-/**
- * Error types for routing validation
- */
-export enum RoutingError {
-  OUT_OF_SERVICE_AREA = 'OUT_OF_SERVICE_AREA',
-  API_ERROR = 'API_ERROR',
-  INVALID_ADDRESS = 'INVALID_ADDRESS',
-}
+// Upper bound on window pane counts (larger homes go to estate/manual quoting)
+const MAX_WINDOW_PANES = 200;
+
+// Upper bound on "years since last wash" (anything older prices the same)
+const MAX_YEARS_SINCE_WASH = 50;
 
 /**
  * Routing result interface
@@ -64,9 +150,160 @@ export enum RoutingError {
 export interface RoutingResult {
   distance: number;        // Distance in kilometers
   duration: string;        // Travel duration (formatted string)
+  durationMinutes: number; // Travel duration, for scheduling and job costing
   travelSurcharge: number; // Additional charge for travel
   isValid: boolean;        // Whether the location is serviceable
   error?: RoutingError;    // Error code if invalid
+  zone?: string;           // Service zone that set the travel rule (if any)
+  depot?: string;          // Depot the job dispatches from (serviceable quotes only)
+  provisional?: boolean;   // Distance estimated offline after a provider failure
+}
+
+// Driving leg from one depot to the destination
+interface DepotLeg {
+  depot: string;
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+/**
+ * Add-on services offered alongside the house wash
+ */
+export type AddOnSelection = Record<AddOnKey, boolean>;
+
+/**
+ * Add-on sizing inputs collected by the quote wizard
+ */
+export interface AddOnSizes {
+  drivewaySqFt: number;
+  gutterLinearFt: number;
+  deckPatioSqFt: number;
+}
+
+/**
+ * Siding material choice shown by the quote wizard (no rates)
+ */
+export interface MaterialOption {
+  material: string;
+  label: string;
+  technique: MaterialTechnique;
+  manualReview: boolean;
+  riskLevel: RiskLevel;
+}
+
+/**
+ * Add-on choice shown by the quote wizard (no rates)
+ */
+export interface AddOnOption {
+  key: AddOnKey;
+  sizeField: keyof AddOnSizes;
+  label: string;
+  unit: string;
+}
+
+/**
+ * Priced add-on line item
+ */
+export interface AddOnLineItem {
+  key: AddOnKey;
+  label: string;
+  quantity: number; // Measured size in `unit`
+  unit: string;
+  price: number;
+}
+
+/**
+ * Window pane counts collected for window cleaning
+ */
+export interface WindowCounts {
+  exteriorPanes: number;
+  interiorPanes: number;
+  hardToReachPanes: number; // Panes needing a ladder (above the first floor, over obstacles)
+}
+
+/**
+ * Priced standalone service line item (window or gutter cleaning)
+ */
+export interface ServiceLineItem {
+  key: Exclude<ServiceKey, 'houseWash'>;
+  label: string;
+  detail: string;   // Human-readable sizing, e.g. "24 exterior, 10 interior panes"
+  quantity: number; // Panes or linear feet cleaned
+  unit: string;
+  price: number;
+}
+
+/**
+ * Property condition collected by the quote wizard (house wash only)
+ */
+export interface PropertyCondition {
+  algaeLevel: AlgaeLevel;
+  yearsSinceLastWash: number;
+  heavyOxidation: boolean;
+  landscapingObstacles: boolean;
+}
+
+/**
+ * Condition adjustment line item (one line for all condition factors)
+ */
+export interface ConditionLineItem {
+  factors: string[];  // Human-readable, e.g. "Heavy algae/moss"
+  multiplier: number; // Combined (capped) multiplier applied to the wash
+  amount: number;     // Dollars added to the wash
+}
+
+/**
+ * One pricing rule as it fired, in the order it was applied
+ */
+export interface PricingTraceStep {
+  rule: string;                                       // e.g. "Material multiplier"
+  inputs: Record<string, string | number | boolean>;
+  output: number;                                     // Dollars after the rule
+}
+
+/**
+ * Sales tax line item (one per tax charged, e.g. GST and QST)
+ */
+export interface TaxLineItem {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+/**
+ * Quote pricing input interface
+ */
+export interface QuoteInput {
+  services?: ServiceKey[]; // Defaults to a house wash only
+  stories: number;
+  squareFeet: number;
+  material: string;
+  condition?: Partial<PropertyCondition>;
+  travelSurcharge: number;
+  windows?: Partial<WindowCounts>;
+  gutterLinearFt?: number;
+  addOns?: AddOnSelection;
+  addOnSizes?: Partial<AddOnSizes>;
+  promotion?: Promotion;   // Resolved promo code (see findPromotion)
+  province?: string;       // Two-letter code; defaults to the catalog's tax.defaultProvince
+  taxExempt?: boolean;     // Customer holds a tax exemption on file
+  now?: Date;              // Pricing time, for promotion validity windows
+}
+
+/**
+ * Priced Good/Better/Best package (same property inputs, package's own services)
+ */
+export interface PackageQuote {
+  key: string;
+  name: string;
+  description: string;
+  services: ServiceKey[];
+  addOns: AddOnKey[];
+  total: number;    // Pre-tax
+  taxTotal: number;
+  minPrice: number; // Tax-inclusive
+  maxPrice: number; // Tax-inclusive
+  discountCode?: string; // Promo code discounted in this package's price
 }
 
 /**
@@ -74,21 +311,42 @@ export interface RoutingResult {
  */
 export interface QuoteBreakdown {
   basePrice: number;
+  storyMultiplier: number;
   materialMultiplier: number;
-  subtotal: number;
+  technique: MaterialTechnique; // How the siding must be washed
+  conditionMultiplier: number;
+  subtotal: number;        // Wash after material and condition adjustments
+  servicesTotal: number;
+  addOnsTotal: number;
+  discountTotal: number;
   travelSurcharge: number;
-  total: number;
-  minPrice: number;
-  maxPrice: number;
+  total: number;           // Pre-tax total
+  province: string;
+  taxExempt: boolean;
+  taxTotal: number;
+  minPrice: number;        // Tax-inclusive
+  maxPrice: number;        // Tax-inclusive
+  catalogVersion: number;  // Pricing catalog version that produced this quote
+  promoError?: PromoError; // Why a supplied promotion was not applied
+  rangeWidth: number;      // Fraction between minPrice and maxPrice (price policy)
+  packages: PackageQuote[]; // Good/Better/Best options (house wash quotes only)
+  trace: PricingTraceStep[]; // Every rule applied, in order (owner/admin only)
   breakdown: {
     basePrice: number;
     materialSurcharge: number;
+    condition?: ConditionLineItem;
+    services: ServiceLineItem[];
+    addOns: AddOnLineItem[];
+    discount?: DiscountLineItem;
     travelSurcharge: number;
+    minimumChargeAdjustment: number; // Added to reach the minimum job charge (0 when above it)
+    taxes: TaxLineItem[];
   };
 }
 
 /**
- * Calculate routing distance and travel surcharge using Google Maps Distance Matrix API.
+ * Calculate routing distance and travel surcharge from the configured routing
+ * provider (Google Distance Matrix by default—see routing-providers.ts).
  *
  * BUSINESS LOGIC:
  * 1. GUARDRAIL (Reject Unprofitable): If distance > 45km, reject job entirely.
@@ -98,6 +356,16 @@ export interface QuoteBreakdown {
  *    20km threshold = break-even for local service area
  * 3. GRACE ZONE: Jobs ≤ 20km absorb travel cost in base rate (local coverage)
  *
+ * SERVICE ZONES:
+ * When the geocoded destination falls inside a configured zone polygon, the
+ * zone's flat fee (or rejection) replaces rules 1–3. The km rule is the
+ * fallback for destinations outside every zone or without coordinates.
+ *
+ * MULTIPLE DEPOTS:
+ * Every depot in the catalog is sent as an origin in a single provider
+ * request. The depot giving the lowest travel surcharge (then the shortest
+ * drive) serves the quote and is reported in `depot`.
+ *
  * RESILIENCE:
  * • Validates API response at each stage to catch invalid data early
  * • Returns structured error codes for frontend decision-making
@@ -105,119 +373,119 @@ export interface QuoteBreakdown {
  */
 export async function calculateRouting(
   destinationAddress: string,
-  googleMapsKey: string
+  catalog: PricingCatalog = DEFAULT_PRICING_CATALOG,
+  destination?: Coordinates,
+  provider: RoutingProvider = getRoutingProvider()
 ): Promise<RoutingResult> {
+  const routingConfig = catalog.routing;
+
   try {
     if (!destinationAddress || !destinationAddress.trim()) {
       return {
         distance: 0,
         duration: '0 mins',
+        durationMinutes: 0,
         travelSurcharge: 0,
         isValid: false,
         error: RoutingError.INVALID_ADDRESS,
       };
     }
 
-    if (!googleMapsKey) {
-      console.error('Google Maps API key not configured');
-      return {
-        distance: 0,
-        duration: '0 mins',
-        travelSurcharge: 0,
-        isValid: false,
-        error: RoutingError.API_ERROR,
-      };
-    }
-
-    // GEOSPATIAL INTEGRATION: Call Distance Matrix API with business origin
-    const response = await fetch(
-      `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${encodeURIComponent(BUSINESS_ORIGIN)}&destinations=${encodeURIComponent(destinationAddress)}&key=${googleMapsKey}&mode=driving`
-    );
+    // GEOSPATIAL INTEGRATION: One provider call with every depot as an origin
+    const depots = getDepots(routingConfig);
+    const matrix = await provider.getDrivingLegs(depots, {
+      address: destinationAddress,
+      location: destination,
+    });
 
-    if (!response.ok) {
-      console.error('Distance Matrix API request failed:', response.statusText);
+    if (matrix.error) {
       return {
         distance: 0,
         duration: '0 mins',
+        durationMinutes: 0,
         travelSurcharge: 0,
         isValid: false,
-        error: RoutingError.API_ERROR,
+        error: matrix.error,
       };
     }
 
-    const data = await response.json();
+    // Skip depots with no driving route to the destination
+    const legs: DepotLeg[] = depots.flatMap((depot, index) => {
+      const leg = matrix.legs[index];
+      return leg ? [{ depot: depot.name, ...leg }] : [];
+    });
 
-    if (data.status !== 'OK') {
-      console.error('Distance Matrix API error:', data.status, data.error_message);
-      return {
-        distance: 0,
-        duration: '0 mins',
-        travelSurcharge: 0,
-        isValid: false,
-        error: RoutingError.API_ERROR,
-      };
-    }
-
-    if (!data.rows || data.rows.length === 0 || !data.rows[0].elements || data.rows[0].elements.length === 0) {
+    if (legs.length === 0) {
       return {
         distance: 0,
         duration: '0 mins',
+        durationMinutes: 0,
         travelSurcharge: 0,
         isValid: false,
         error: RoutingError.INVALID_ADDRESS,
       };
     }
 
-    const element = data.rows[0].elements[0];
+    const nearestLeg = legs.reduce((nearest, leg) => (leg.distanceKm < nearest.distanceKm ? leg : nearest));
 
-    if (element.status !== 'OK') {
-      console.error('Distance Matrix element error:', element.status);
+    // SERVICE ZONES: Polygon rules override the distance-based rules below
+    // The fee is fixed per zone, so dispatch from the nearest depot
+    const zone = destination
+      ? routingConfig.zones.find((candidate) => isPointInGeometry(destination, candidate.geometry))
+      : undefined;
+    if (zone) {
       return {
-        distance: 0,
-        duration: '0 mins',
-        travelSurcharge: 0,
-        isValid: false,
-        error: RoutingError.INVALID_ADDRESS,
+        distance: nearestLeg.distanceKm,
+        duration: `${nearestLeg.durationMinutes} mins`,
+        durationMinutes: nearestLeg.durationMinutes,
+        travelSurcharge: zone.reject ? 0 : zone.travelFee,
+        isValid: !zone.reject,
+        error: zone.reject ? RoutingError.OUT_OF_SERVICE_AREA : undefined,
+        zone: zone.name,
+        depot: zone.reject ? undefined : nearestLeg.depot,
       };
     }
 
-    const distanceMeters = element.distance.value;
-    const durationSeconds = element.duration.value;
-    const distanceKm = distanceMeters / 1000;
-    const durationMinutes = Math.round(durationSeconds / 60);
-
     // GUARDRAIL: Reject out-of-service-area jobs
     // Business rationale: 45km+ jobs have unsustainable travel costs relative to service value
-    if (distanceKm > ROUTING_CONFIG.MAX_SERVICE_DISTANCE_KM) {
+    const serviceableLegs = legs.filter((leg) => leg.distanceKm <= routingConfig.maxServiceDistanceKm);
+    if (serviceableLegs.length === 0) {
       return {
-        distance: distanceKm,
-        duration: `${durationMinutes} mins`,
+        distance: nearestLeg.distanceKm,
+        duration: `${nearestLeg.durationMinutes} mins`,
+        durationMinutes: nearestLeg.durationMinutes,
         travelSurcharge: 0,
         isValid: false,
         error: RoutingError.OUT_OF_SERVICE_AREA,
       };
     }
 
-    // SURCHARGE OPTIMIZATION: Calculate distance-based travel cost recovery
-    // Jobs within 20km = local coverage (cost absorbed in base rate)
-    // Jobs 20-45km = progressive cost recovery at $2.50/km
-    let travelSurcharge = 0;
-    if (distanceKm > ROUTING_CONFIG.SURCHARGE_THRESHOLD_KM) {
-      const excessDistance = distanceKm - ROUTING_CONFIG.SURCHARGE_THRESHOLD_KM;
-      travelSurcharge = Math.round(excessDistance * ROUTING_CONFIG.SURCHARGE_RATE_PER_KM * 100) / 100;
-    }
+    // CHEAPEST DEPOT: Lowest travel surcharge wins; ties go to the shorter drive
+    const pricedLegs = serviceableLegs.map((leg) => ({
+      ...leg,
+      travelSurcharge: calculateTravelSurcharge(leg.distanceKm, routingConfig),
+    }));
+    const cheapestLeg = pricedLegs.reduce((best, leg) =>
+      leg.travelSurcharge < best.travelSurcharge ||
+      (leg.travelSurcharge === best.travelSurcharge && leg.distanceKm < best.distanceKm)
+        ? leg
+        : best
+    );
 
     return {
-      distance: distanceKm,
-      duration: `${durationMinutes} mins`,
-      travelSurcharge,
+      distance: cheapestLeg.distanceKm,
+      duration: `${cheapestLeg.durationMinutes} mins`,
+      durationMinutes: cheapestLeg.durationMinutes,
+      travelSurcharge: cheapestLeg.travelSurcharge,
       isValid: true,
+      depot: cheapestLeg.depot,
     };
   } catch (error) {
     console.error('Routing calculation error:', error);
     return {
       distance: 0,
       duration: '0 mins',
+      durationMinutes: 0,
       travelSurcharge: 0,
       isValid: false,
       error: RoutingError.API_ERROR,
@@ -225,11 +493,61 @@ export async function calculateRouting(
   }
 }
 
+/**
+ * DEGRADED MODE: Estimate routing when the configured provider is down.
+ *
+ * Called after calculateRouting returns API_ERROR. Travel is estimated from
+ * the destination coordinates (straight line × road factor) so far-away jobs
+ * still carry a surcharge instead of being priced as local. The result is
+ * flagged `provisional`; callers must surface that and have the owner confirm.
+ *
+ * Returns API_ERROR again when no estimate is possible (no coordinates for
+ * the destination or any depot).
+ */
+export async function calculateProvisionalRouting(
+  destinationAddress: string,
+  catalog: PricingCatalog = DEFAULT_PRICING_CATALOG,
+  destination?: Coordinates
+): Promise<RoutingResult> {
+  const estimate = await calculateRouting(
+    destinationAddress,
+    catalog,
+    destination,
+    createHaversineRoutingProvider()
+  );
+
+  if (!estimate.isValid && estimate.error !== RoutingError.OUT_OF_SERVICE_AREA) {
+    return { ...estimate, error: RoutingError.API_ERROR };
+  }
+  return { ...estimate, provisional: true };
+}
+
+/**
+ * Depots to route from: the catalog's list, or the OWNER_ADDRESS origin.
+ */
+export function getDepots(routingConfig: PricingCatalog['routing']): Depot[] {
+  return routingConfig.depots.length > 0
+    ? routingConfig.depots
+    : [{ name: 'Main Yard', address: BUSINESS_ORIGIN, location: BUSINESS_LOCATION }];
+}
+
+// SURCHARGE OPTIMIZATION: Calculate distance-based travel cost recovery
+// Jobs within 20km = local coverage (cost absorbed in base rate)
+// Jobs 20-45km = progressive cost recovery at $2.50/km
+function calculateTravelSurcharge(distanceKm: number, routingConfig: PricingCatalog['routing']): number {
+  if (distanceKm <= routingConfig.surchargeThresholdKm) {
+    return 0;
+  }
+  const excessDistance = distanceKm - routingConfig.surchargeThresholdKm;
+  return Math.round(excessDistance * routingConfig.surchargeRatePerKm * 100) / 100;
+}
+
 /**
  * Calculate final quote by applying material-based risk adjustment to base rate.
  *
  * BUSINESS LOGIC:
- * Base pricing by property size (stories) does NOT account for material complexity.
+ * Base pricing by property size (square footage × stories) does NOT account
+ * for material complexity.
  * This function applies fair risk-adjusted multipliers:
  *
  * • VINYL (1.0x): Standard—common sidings, predictable results, minimal risk
@@ -237,60 +555,667 @@ export async function calculateRouting(
  *   slight liability risk if mortar damaged
  * • STUCCO (1.35x): High—delicate finish, easily damaged by pressure, requires
  *   specialized low-pressure technique, highest liability exposure
+ * • Full list (cedar, Hardie board, aluminum, ...) lives in the catalog.
+ *   Materials flagged `manualReview` must be stopped by the caller first
+ *   (see findMaterial); unknown materials price at 1.0x.
  *
  * PRICING INTEGRITY:
  * Without multipliers, stucco customers would subsidize vinyl customers despite
  * 5x higher service complexity. This preserves margin across all material types.
  *
+ * SERVICES:
+ * Window and gutter cleaning can be quoted on their own or combined with a
+ * wash. Without a house wash the base rate and material surcharge are $0.
+ *
+ * ADD-ONS:
+ * Selected add-ons are priced as separate line items from their own sizing
+ * inputs. Material multipliers do NOT apply—driveways and decks are flatwork.
+ * The gutters add-on is dropped when Gutter Cleaning is quoted as a service.
+ *
+ * DISCOUNTS:
+ * A resolved promotion is checked against its rules (discounts.ts) and, if
+ * valid, subtracted as its own line. Usage caps are enforced by the caller.
+ *
+ * TAX:
+ * Sales tax is charged on the discounted pre-tax total (travel included),
+ * so minPrice/maxPrice are what the customer actually pays.
+ *
+ * PACKAGES:
+ * House wash quotes also price each catalog package (Good/Better/Best) with
+ * the same sizes, condition and travel, so the customer can compare.
+ *
+ * PRICE POLICY:
+ * Jobs below the catalog's minimum charge are topped up (its own breakdown
+ * line), quoted prices round to the policy's step, and the range width is
+ * the widest of the quoted services' and the material risk level's widths.
+ *
  * FORMULA:
- * Quote = (Base Rate × Material Multiplier) + Travel Surcharge + [15% margin buffer]
+ * Quote = max[(Base Rate × Material × Condition) + Services + Add-ons − Discount + Travel Surcharge, Minimum] + Tax + [range width]
  */
 export function calculateQuoteWithMaterial(
-  stories: number,
-  material: string,
-  travelSurcharge: number
+  input: QuoteInput,
+  catalog: PricingCatalog = DEFAULT_PRICING_CATALOG
 ): QuoteBreakdown {
-  const basePrice = BASE_RATE_PER_STORY[stories as keyof typeof BASE_RATE_PER_STORY] || 650;
-  const materialMultiplier = MATERIAL_MULTIPLIERS[material.toLowerCase()] || 1.0;
+  const quote = priceQuote(input, catalog);
+
+  // PACKAGES: Good/Better/Best options priced from the same property inputs
+  const includesWash = (input.services ?? ['houseWash']).includes('houseWash');
+  const packages = includesWash
+    ? catalog.packages.map((servicePackage) => pricePackage(servicePackage, input, catalog))
+    : [];
+
+  return { ...quote, packages };
+}
+
+/**
+ * Price a package by swapping its services and add-ons into the customer's
+ * inputs. Sizes, condition, travel, promotion and tax all carry over.
+ */
+function pricePackage(
+  servicePackage: ServicePackage,
+  input: QuoteInput,
+  catalog: PricingCatalog
+): PackageQuote {
+  const addOns = Object.fromEntries(
+    ADD_ON_KEYS.map((key) => [key, servicePackage.addOns.includes(key)])
+  ) as AddOnSelection;
+  const { total, taxTotal, minPrice, maxPrice, breakdown } = priceQuote(
+    { ...input, services: servicePackage.services, addOns },
+    catalog
+  );
+
+  return {
+    key: servicePackage.key,
+    name: servicePackage.name,
+    description: servicePackage.description,
+    services: servicePackage.services,
+    addOns: servicePackage.addOns,
+    total,
+    taxTotal,
+    minPrice,
+    maxPrice,
+    ...(breakdown.discount && { discountCode: breakdown.discount.code }),
+  };
+}
+
+/**
+ * Promo code discounted anywhere on a quote—the customer's selection or any
+ * package (a package can qualify when the selection doesn't).
+ */
+export function getAppliedPromoCode(quote: QuoteBreakdown): string | undefined {
+  return quote.breakdown.discount?.code ?? quote.packages.find((option) => option.discountCode)?.discountCode;
+}
+
+// Single quote for one service/add-on selection (see calculateQuoteWithMaterial)
+function priceQuote(
+  {
+    services = ['houseWash'],
+    stories,
+    squareFeet,
+    material,
+    condition = {},
+    travelSurcharge,
+    windows = {},
+    gutterLinearFt,
+    addOns,
+    addOnSizes = {},
+    promotion,
+    now,
+    province,
+    taxExempt = false,
+  }: QuoteInput,
+  catalog: PricingCatalog
+): Omit<QuoteBreakdown, 'packages'> {
+  const trace: PricingTraceStep[] = [];
+  const includesWash = services.includes('houseWash');
+  const { basePrice, storyMultiplier } = includesWash
+    ? traceBasePrice(calculateBasePrice(squareFeet, stories, catalog), stories, catalog, trace)
+    : { basePrice: 0, storyMultiplier: 1 };
+  const materialRate = findMaterial(material, catalog);
+  const materialMultiplier = materialRate?.multiplier ?? 1.0;
 
   // RISK ADJUSTMENT: Apply material multiplier to account for complexity & liability
   const materialSurcharge = basePrice * (materialMultiplier - 1);
-  const subtotal = basePrice * materialMultiplier;
-  const total = Math.round((subtotal + travelSurcharge) * 100) / 100;
+  const materialAdjusted = basePrice * materialMultiplier;
+
+  // PROPERTY CONDITION: Moss, neglect, oxidation and obstacles add labour to the wash
+  const { multiplier: conditionMultiplier, factors: conditionFactors } = includesWash
+    ? calculateConditionAdjustment(condition, catalog)
+    : { multiplier: 1, factors: [] };
+  const conditionSurcharge = Math.round(materialAdjusted * (conditionMultiplier - 1) * 100) / 100;
+  const subtotal = materialAdjusted + conditionSurcharge;
+
+  if (includesWash) {
+    trace.push(
+      {
+        rule: 'Material multiplier',
+        inputs: { material: materialRate?.material ?? material, multiplier: materialMultiplier, basePrice },
+        output: Math.round(materialAdjusted * 100) / 100,
+      },
+      {
+        rule: 'Property condition',
+        inputs: {
+          factors: conditionFactors.join(', ') || 'none',
+          multiplier: conditionMultiplier,
+          cap: catalog.conditions.maxCombinedMultiplier,
+        },
+        output: Math.round(subtotal * 100) / 100,
+      }
+    );
+  }
+
+  // STANDALONE SERVICES: Window panes and gutter footage priced on their own rates
+  const serviceItems: ServiceLineItem[] = [];
+  if (services.includes('windowCleaning')) {
+    serviceItems.push(calculateWindowCleaning(windows, catalog));
+  }
+  if (services.includes('gutterCleaning')) {
+    serviceItems.push(calculateGutterCleaning(gutterLinearFt, stories, catalog));
+  }
+  const servicesTotal = serviceItems.reduce((sum, item) => sum + item.price, 0);
+  serviceItems.forEach((item) => {
+    trace.push({
+      rule: item.label,
+      inputs: { sizing: item.detail, minimumCharge: catalog.services[item.key].minimumCharge },
+      output: item.price,
+    });
+  });
+
+  // ADD-ON LINE ITEMS: Each selected add-on priced from its own measurement
+  // No double-charging: gutter service supersedes the gutters add-on
+  const effectiveAddOns = addOns && services.includes('gutterCleaning')
+    ? { ...addOns, gutters: false }
+    : addOns;
+  const addOnItems = effectiveAddOns ? calculateAddOns(effectiveAddOns, addOnSizes, catalog) : [];
+  const addOnsTotal = addOnItems.reduce((sum, item) => sum + item.price, 0);
+  addOnItems.forEach((item) => {
+    const rate = catalog.addOns[item.key];
+    trace.push({
+      rule: `Add-on: ${item.label}`,
+      inputs: { quantity: item.quantity, unit: item.unit, ratePerUnit: rate.ratePerUnit, minimumCharge: rate.minimumCharge },
+      output: item.price,
+    });
+  });
+
+  // PROMO DISCOUNT: Only eligible services are discounted, never add-ons or travel
+  let discount: DiscountLineItem | undefined;
+  let promoError: PromoError | undefined;
+  if (promotion) {
+    const serviceAmounts: Partial<Record<ServiceKey, number>> = { houseWash: subtotal };
+    serviceItems.forEach((item) => {
+      serviceAmounts[item.key] = item.price;
+    });
+    ({ discount, error: promoError } = calculateDiscount(promotion, {
+      serviceAmounts,
+      orderValue: subtotal + servicesTotal + addOnsTotal,
+      now,
+    }));
+  }
+  const discountTotal = discount?.amount ?? 0;
+  if (promotion) {
+    trace.push({
+      rule: 'Promo discount',
+      inputs: promoError
+        ? { code: promotion.code, rejected: promoError }
+        : { code: promotion.code, type: promotion.type, value: promotion.value },
+      output: -discountTotal,
+    });
+  }
 
-  // MARGIN BUFFER: Apply 15% range for on-site negotiation flexibility
-  const minPrice = Math.round(total);
-  const maxPrice = Math.round(total * 1.15);
+  trace.push({ rule: 'Travel surcharge', inputs: { travelSurcharge }, output: travelSurcharge });
+
+  const policy = catalog.pricePolicy;
+  const preTaxTotal = subtotal + servicesTotal + addOnsTotal - discountTotal + travelSurcharge;
+  const itemizedTotal = Math.round(preTaxTotal * 100) / 100;
+  trace.push({
+    rule: 'Pre-tax total',
+    inputs: {
+      wash: Math.round(subtotal * 100) / 100,
+      services: Math.round(servicesTotal * 100) / 100,
+      addOns: Math.round(addOnsTotal * 100) / 100,
+      discount: discountTotal,
+      travelSurcharge,
+    },
+    output: itemizedTotal,
+  });
+
+  // MINIMUM JOB CHARGE: Small jobs still cost a truck roll
+  const minimumChargeAdjustment = Math.max(
+    Math.round((policy.minimumJobCharge - itemizedTotal) * 100) / 100,
+    0
+  );
+  const total = Math.round((itemizedTotal + minimumChargeAdjustment) * 100) / 100;
+  trace.push({
+    rule: 'Minimum job charge',
+    inputs: { itemizedTotal, minimumJobCharge: policy.minimumJobCharge, adjustment: minimumChargeAdjustment },
+    output: total,
+  });
+
+  // SALES TAX: Province rates from the catalog, skipped for exempt customers
+  const taxProvince = resolveTaxProvince(province, catalog);
+  const taxItems = taxExempt ? [] : calculateTaxes(total, taxProvince, catalog);
+  const taxTotal = Math.round(taxItems.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+  if (taxExempt) {
+    trace.push({ rule: 'Sales tax exemption', inputs: { province: taxProvince }, output: 0 });
+  }
+  taxItems.forEach((tax) => {
+    trace.push({
+      rule: `Sales tax: ${tax.name}`,
+      inputs: { province: taxProvince, rate: tax.rate, taxableAmount: total },
+      output: tax.amount,
+    });
+  });
+
+  // RANGE WIDTH: Widest of the quoted services' and material risk's widths,
+  // leaving room for on-site negotiation; both ends round to the policy step
+  const totalWithTax = Math.round((total + taxTotal) * 100) / 100;
+  const rangeWidth = resolveRangeWidth(services, includesWash ? materialRate : undefined, catalog);
+  const minPrice = roundToStep(totalWithTax, policy.roundTo);
+  const maxPrice = roundToStep(totalWithTax * (1 + rangeWidth), policy.roundTo);
+  trace.push(
+    { rule: `Round to nearest $${policy.roundTo}`, inputs: { totalWithTax }, output: minPrice },
+    { rule: 'Range width', inputs: { totalWithTax, rangeWidth, roundTo: policy.roundTo }, output: maxPrice }
+  );
 
   return {
     basePrice,
+    storyMultiplier,
     materialMultiplier,
+    technique: materialRate?.technique ?? 'softWash',
+    conditionMultiplier,
     subtotal,
+    servicesTotal,
+    addOnsTotal,
+    discountTotal,
     travelSurcharge,
     total,
+    province: taxProvince,
+    taxExempt,
+    taxTotal,
     minPrice,
     maxPrice,
+    catalogVersion: catalog.version,
+    promoError,
+    rangeWidth,
+    trace,
     breakdown: {
       basePrice,
       materialSurcharge: Math.round(materialSurcharge * 100) / 100,
+      condition: conditionSurcharge > 0
+        ? { factors: conditionFactors, multiplier: conditionMultiplier, amount: conditionSurcharge }
+        : undefined,
+      services: serviceItems,
+      addOns: addOnItems,
+      discount,
       travelSurcharge,
+      minimumChargeAdjustment,
+      taxes: taxItems,
     },
   };
 }
 
 /**
- * Get available material options with their complexity levels.
- * Used by frontend to display material selection during quote flow.
+ * Pick the quoted range width: the widest of each quoted service's width and
+ * the washed material's risk-level width, falling back to the policy default.
+ */
+function resolveRangeWidth(
+  services: ServiceKey[],
+  materialRate: MaterialRate | undefined,
+  catalog: PricingCatalog
+): number {
+  const { rangeWidth } = catalog.pricePolicy;
+  const widths = services.map((service) => rangeWidth.services[service] ?? rangeWidth.default);
+  if (materialRate) {
+    const riskWidth = rangeWidth.riskLevels[getRiskLevel(materialRate.multiplier)];
+    if (riskWidth !== undefined) widths.push(riskWidth);
+  }
+  return widths.length > 0 ? Math.max(...widths) : rangeWidth.default;
+}
+
+// Round a quoted price to the nearest policy step ($1, $5, $25...)
+function roundToStep(amount: number, step: number): number {
+  return Math.round(amount / step) * step;
+}
+
+/**
+ * Combine the property condition factors into one multiplier.
+ *
+ * Factors multiply (heavy moss on a neglected house compounds), but the
+ * product is capped so a worst-case house stays quotable online.
+ */
+function calculateConditionAdjustment(
+  { algaeLevel = 'none', yearsSinceLastWash = 0, heavyOxidation = false, landscapingObstacles = false }: Partial<PropertyCondition>,
+  catalog: PricingCatalog
+): { multiplier: number; factors: string[] } {
+  const rates = catalog.conditions;
+  const factors: string[] = [];
+  let multiplier = 1;
+
+  const algaeMultiplier = rates.algae[algaeLevel] ?? 1;
+  if (algaeMultiplier > 1) {
+    multiplier *= algaeMultiplier;
+    factors.push(`${algaeLevel.charAt(0).toUpperCase() + algaeLevel.slice(1)} algae/moss`);
+  }
+
+  // Highest step whose threshold the customer has reached
+  const years = Math.min(Math.max(Number(yearsSinceLastWash) || 0, 0), MAX_YEARS_SINCE_WASH);
+  const yearsStep = [...rates.yearsSinceWash].reverse().find((step) => years >= step.minYears);
+  if (yearsStep && yearsStep.multiplier > 1) {
+    multiplier *= yearsStep.multiplier;
+    factors.push(`${yearsStep.minYears}+ years since last wash`);
+  }
+
+  if (heavyOxidation && rates.heavyOxidation > 1) {
+    multiplier *= rates.heavyOxidation;
+    factors.push('Heavy oxidation');
+  }
+  if (landscapingObstacles && rates.landscapingObstacles > 1) {
+    multiplier *= rates.landscapingObstacles;
+    factors.push('Landscaping obstacles');
+  }
+
+  return {
+    multiplier: Math.round(Math.min(multiplier, rates.maxCombinedMultiplier) * 1000) / 1000,
+    factors,
+  };
+}
+
+// Provinces without configured rates fall back to the business's home province
+function resolveTaxProvince(province: string | undefined, catalog: PricingCatalog): string {
+  const code = province?.trim().toUpperCase();
+  return code && catalog.tax.provinces[code] ? code : catalog.tax.defaultProvince;
+}
+
+/**
+ * Calculate each sales tax charged in a province.
+ * Each tax is rounded to the cent on its own, as it appears on an invoice.
+ */
+function calculateTaxes(
+  taxableAmount: number,
+  province: string,
+  catalog: PricingCatalog
+): TaxLineItem[] {
+  return catalog.tax.provinces[province].map((tax) => ({
+    name: tax.name,
+    rate: tax.rate,
+    amount: Math.round(taxableAmount * tax.rate * 100) / 100,
+  }));
+}
+
+// Canadian province/territory codes as they appear in geocoded addresses
+const PROVINCE_CODE_PATTERN = /,\s*(AB|BC|MB|NB|NL|NS|NT|NU|ON|PE|QC|SK|YT)\b/g;
+
+/**
+ * Detect the province from a formatted address
+ * (e.g. "123 Main St, Langley, BC V3A 1A1, Canada" → "BC").
+ * The last match wins—the province always follows the street and city.
+ */
+export function detectProvince(address: string): string | undefined {
+  const matches = [...address.toUpperCase().matchAll(PROVINCE_CODE_PATTERN)];
+  return matches.length > 0 ? matches[matches.length - 1][1] : undefined;
+}
+
+/**
+ * Calculate the size-based base rate before material adjustment.
+ *
+ * FORMULA:
+ * Base = clamp(Σ tier footage × tier rate × Story Multiplier, FLOOR, CAP)
+ *
+ * Example: 2,500 sq ft two-storey
+ *   1,500 × $0.22 + 1,000 × $0.18 = $510 × 1.15 = $586.50
+ */
+function calculateBasePrice(squareFeet: number, stories: number, catalog: PricingCatalog) {
+  const { sqFtTiers, storyMultipliers, floor, cap } = catalog.baseRate;
+  const storyMultiplier = getStoryMultiplier(storyMultipliers, stories);
+  const footage = Math.max(Number(squareFeet) || 0, 0);
+
+  // TIERED RATE: Walk the brackets, pricing only the footage inside each one
+  let sizePrice = 0;
+  let lowerBound = 0;
+  for (const tier of sqFtTiers) {
+    if (footage <= lowerBound) break;
+    const upperBound = tier.upToSqFt ?? Infinity;
+    const tierFootage = Math.min(footage, upperBound) - lowerBound;
+    sizePrice += tierFootage * tier.ratePerSqFt;
+    lowerBound = upperBound;
+  }
+
+  const rawPrice = sizePrice * storyMultiplier;
+  const basePrice = Math.min(Math.max(rawPrice, floor), cap);
+
+  return {
+    basePrice: Math.round(basePrice * 100) / 100,
+    storyMultiplier,
+    footage,
+    sizePrice: Math.round(sizePrice * 100) / 100,
+    rawPrice: Math.round(rawPrice * 100) / 100,
+  };
+}
+
+// Record the base rate's three rules: tier walk, story multiplier, floor/cap clamp
+function traceBasePrice(
+  base: ReturnType<typeof calculateBasePrice>,
+  stories: number,
+  catalog: PricingCatalog,
+  trace: PricingTraceStep[]
+): ReturnType<typeof calculateBasePrice> {
+  const { floor, cap, sqFtTiers } = catalog.baseRate;
+  trace.push(
+    {
+      rule: 'Base rate: tiered sq ft',
+      inputs: {
+        squareFeet: base.footage,
+        tiers: sqFtTiers.map((tier) => `${tier.upToSqFt ?? '∞'} @ $${tier.ratePerSqFt}`).join(', '),
+      },
+      output: base.sizePrice,
+    },
+    {
+      rule: 'Base rate: story multiplier',
+      inputs: { stories, multiplier: base.storyMultiplier },
+      output: base.rawPrice,
+    },
+    {
+      rule: 'Base rate: floor/cap',
+      inputs: { rawPrice: base.rawPrice, floor, cap },
+      output: base.basePrice,
+    }
+  );
+  return base;
+}
+
+// "3+" homes use the tallest story multiplier the catalog defines
+export function getStoryMultiplier(storyMultipliers: Record<string, number>, stories: number): number {
+  const maxStories = Math.max(...Object.keys(storyMultipliers).map(Number));
+  const storyKey = Math.min(Math.max(Math.round(stories) || 1, 1), maxStories);
+  return storyMultipliers[String(storyKey)] ?? storyMultipliers['1'];
+}
+
+// Pane counts: whole, non-negative, capped
+function toPaneCount(value: unknown): number {
+  const count = Math.round(Number(value));
+  return Number.isFinite(count) ? Math.min(Math.max(count, 0), MAX_WINDOW_PANES) : 0;
+}
+
+/**
+ * Price window cleaning from pane counts.
+ *
+ * FORMULA:
+ * Windows = max(Exterior × rate + Interior × rate + Hard-to-reach × surcharge, Minimum)
+ *
+ * Hard-to-reach panes are a subset of the exterior/interior counts—the
+ * surcharge only covers the extra ladder setup.
+ */
+function calculateWindowCleaning(
+  windows: Partial<WindowCounts>,
+  catalog: PricingCatalog
+): ServiceLineItem {
+  const rates = catalog.services.windowCleaning;
+  const exteriorPanes = toPaneCount(windows.exteriorPanes);
+  const interiorPanes = toPaneCount(windows.interiorPanes);
+  const hardToReachPanes = Math.min(
+    toPaneCount(windows.hardToReachPanes),
+    exteriorPanes + interiorPanes
+  );
+
+  const panePrice =
+    exteriorPanes * rates.exteriorRatePerPane +
+    interiorPanes * rates.interiorRatePerPane +
+    hardToReachPanes * rates.hardToReachSurchargePerPane;
+
+  // MINIMUM CHARGE: A handful of panes still costs a full setup
+  const price = Math.max(panePrice, rates.minimumCharge);
+
+  const details = [`${exteriorPanes} exterior`, `${interiorPanes} interior`];
+  if (hardToReachPanes > 0) details.push(`${hardToReachPanes} hard-to-reach`);
+
+  return {
+    key: 'windowCleaning',
+    label: rates.label,
+    detail: `${details.join(', ')} panes`,
+    quantity: exteriorPanes + interiorPanes,
+    unit: 'panes',
+    price: Math.round(price * 100) / 100,
+  };
+}
+
+/**
+ * Price gutter cleaning from linear footage, scaled by storey
+ * (taller eaves need longer ladders and more repositioning).
+ *
+ * FORMULA:
+ * Gutters = max(Linear Ft × rate × Story Multiplier, Minimum)
+ */
+function calculateGutterCleaning(
+  gutterLinearFt: number | undefined,
+  stories: number,
+  catalog: PricingCatalog
+): ServiceLineItem {
+  const rates = catalog.services.gutterCleaning;
+  const requestedFootage = Number(gutterLinearFt);
+  const linearFt =
+    Number.isFinite(requestedFootage) && requestedFootage > 0
+      ? Math.min(Math.round(requestedFootage), MAX_ADD_ON_SIZE)
+      : rates.defaultLinearFt;
+  const storyMultiplier = getStoryMultiplier(rates.storyMultipliers, stories);
+
+  const price = Math.max(linearFt * rates.ratePerLinearFt * storyMultiplier, rates.minimumCharge);
+
+  return {
+    key: 'gutterCleaning',
+    label: rates.label,
+    detail: `${linearFt.toLocaleString()} linear ft, ${Math.round(stories) || 1} storey`,
+    quantity: linearFt,
+    unit: 'linear ft',
+    price: Math.round(price * 100) / 100,
+  };
+}
+
+// Maps each add-on to the sizing field the wizard collects for it
+const ADD_ON_SIZE_FIELDS: Record<AddOnKey, keyof AddOnSizes> = {
+  driveway: 'drivewaySqFt',
+  gutters: 'gutterLinearFt',
+  deckPatio: 'deckPatioSqFt',
+};
+
+/**
+ * Price each selected add-on as its own line item.
+ * Missing or invalid measurements fall back to a typical size so the
+ * customer still sees a realistic number instead of $0.
+ */
+function calculateAddOns(
+  addOns: AddOnSelection,
+  addOnSizes: Partial<AddOnSizes>,
+  catalog: PricingCatalog
+): AddOnLineItem[] {
+  return ADD_ON_KEYS
+    .filter((key) => addOns[key])
+    .map((key) => {
+      const rate = catalog.addOns[key];
+      const requestedSize = Number(addOnSizes[ADD_ON_SIZE_FIELDS[key]]);
+      const quantity =
+        Number.isFinite(requestedSize) && requestedSize > 0
+          ? Math.min(Math.round(requestedSize), MAX_ADD_ON_SIZE)
+          : rate.defaultSize;
+
+      // MINIMUM CHARGE: Small areas still cost a full setup
+      const price = Math.max(quantity * rate.ratePerUnit, rate.minimumCharge);
+
+      return {
+        key,
+        label: rate.label,
+        quantity,
+        unit: rate.unit,
+        price: Math.round(price * 100) / 100,
+      };
+    });
+}
+
+/**
+ * Get add-on options for the wizard's add-ons step (public fields only).
+ * Served by the /quote page from the live catalog.
+ */
+export function getAddOnOptions(catalog: PricingCatalog): AddOnOption[] {
+  return ADD_ON_KEYS.map((key) => ({
+    key,
+    sizeField: ADD_ON_SIZE_FIELDS[key],
+    label: catalog.addOns[key].label,
+    unit: catalog.addOns[key].unit,
+  }));
+}
+
+/**
+ * Parse a service list from untrusted input, dropping unknown entries.
+ * Used by the API to validate the wizard's service selection.
+ */
+export function parseServices(value: unknown): ServiceKey[] {
+  if (!Array.isArray(value)) return ['houseWash'];
+  return SERVICE_KEYS.filter((key) => value.includes(key));
+}
+
+/**
+ * Parse property condition from untrusted input, keeping only known values.
+ * Used by the API to validate the wizard's condition step.
+ */
+export function parseCondition(value: unknown): Partial<PropertyCondition> {
+  if (typeof value !== 'object' || value === null) return {};
+  const raw = value as Record<string, unknown>;
+
+  return {
+    algaeLevel: ALGAE_LEVELS.find((level) => level === raw.algaeLevel) ?? 'none',
+    yearsSinceLastWash: typeof raw.yearsSinceLastWash === 'number' ? raw.yearsSinceLastWash : 0,
+    heavyOxidation: raw.heavyOxidation === true,
+    landscapingObstacles: raw.landscapingObstacles === true,
+  };
+}
+
+/**
+ * Look up a siding material by wizard value (case-insensitive).
+ * Returns undefined for materials not in the catalog.
+ */
+export function findMaterial(
+  material: string,
+  catalog: PricingCatalog = DEFAULT_PRICING_CATALOG
+): (MaterialRate & { material: string }) | undefined {
+  const normalized = material.trim().toLowerCase();
+  const entry = Object.entries(catalog.materials).find(([key]) => key.toLowerCase() === normalized);
+  return entry ? { material: entry[0], ...entry[1] } : undefined;
+}
+
+/**
+ * Get siding material options for the wizard (public fields only).
+ * Served by the /quote page from the live catalog.
  */
-export function getMaterialOptions() {
-  return Object.entries(MATERIAL_MULTIPLIERS).map(([material, multiplier]) => ({
+export function getMaterialOptions(catalog: PricingCatalog): MaterialOption[] {
+  return Object.entries(catalog.materials).map(([material, rate]) => ({
     material,
-    multiplier,
-    riskLevel: getRiskLevel(multiplier),
+    label: rate.label,
+    technique: rate.technique,
+    manualReview: rate.manualReview,
+    riskLevel: getRiskLevel(rate.multiplier),
   }));
 }
 
-function getRiskLevel(multiplier: number): string {
+function getRiskLevel(multiplier: number): RiskLevel {
   if (multiplier === 1.0) return 'Standard';
   if (multiplier <= 1.15) return 'Moderate';
   return 'High';
@@ -0,0 +1,66 @@
+/**
+ * Tracks promo code redemptions in Upstash Redis to enforce usage caps.
+ *
+ * A use is counted when a discounted quote is accepted (quote-acceptance.ts),
+ * not when it is priced—quoting only checks that a use is still left, so
+ * repeat submissions and abandoned quotes never spend the cap.
+ *
+ * ATOMICITY:
+ * INCR first, then compare against the cap—two concurrent quotes can never
+ * both take the last redemption. Over-cap increments are rolled back.
+ */
+import type { Promotion } from './discounts';
+import { redis, isRedisConfigured } from './redis';
+
+const usageKey = (code: string) => `promo:usage:${code}`;
+
+/**
+ * Whether a promotion still has uses left (nothing is reserved). Fails
+ * closed: without a readable count the capped code is treated as spent.
+ */
+export async function hasPromoUsesLeft(promotion: Promotion): Promise<boolean> {
+  if (promotion.usageCap === null) {
+    return true;
+  }
+  if (!isRedisConfigured) {
+    console.warn('Redis not configured, rejecting capped promo code:', promotion.code);
+    return false;
+  }
+  try {
+    return ((await redis.get<number>(usageKey(promotion.code))) ?? 0) < promotion.usageCap;
+  } catch (error) {
+    console.error('Failed to read promo usage, rejecting capped promo code:', promotion.code, error);
+    return false;
+  }
+}
+
+/**
+ * Reserve one use of a promotion. Returns false once the cap is reached.
+ */
+export async function reservePromoUse(promotion: Promotion): Promise<boolean> {
+  if (promotion.usageCap === null) {
+    return true;
+  }
+
+  // Caps can't be enforced without Redis—fail closed rather than over-redeem
+  if (!isRedisConfigured) {
+    console.warn('Redis not configured, rejecting capped promo code:', promotion.code);
+    return false;
+  }
+
+  const used = await redis.incr(usageKey(promotion.code));
+  if (used > promotion.usageCap) {
+    await redis.decr(usageKey(promotion.code));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Give back a reserved use (the acceptance it was reserved for didn't stick).
+ */
+export async function releasePromoUse(promotion: Promotion): Promise<void> {
+  if (promotion.usageCap !== null && isRedisConfigured) {
+    await redis.decr(usageKey(promotion.code));
+  }
+}
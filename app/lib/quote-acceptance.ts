@@ -0,0 +1,261 @@
+/**
+ * ============================================================================
+ * ONLINE QUOTE ACCEPTANCE
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Lets a customer accept a stored quote from /quote/[id]: pick their own
+ * selection or a Good/Better/Best package, confirm the service address,
+ * agree to the terms (quote-terms.ts) and sign by typing or drawing.
+ *
+ * RULES (checked in order, first failure wins):
+ * 1. Not already accepted—the first signature always stands
+ * 2. Address confirmed and terms agreed, on the current terms version
+ * 3. Signature: full name, plus a PNG when drawn
+ * 4. Package (if chosen) is one of the packages priced for this quote
+ * 5. Expired quotes are re-priced first (quote-repricing.ts). If the price
+ *    moved the customer must review it and sign again; if it can no longer
+ *    be priced online they must contact us.
+ * 6. A promo discount in the accepted price takes one use of its usage cap
+ *    (promo-usage.ts); once the cap is spent the quote needs re-pricing.
+ *
+ * WHAT GETS RECORDED:
+ * Timestamp, client IP and user agent, confirmed address, terms version,
+ * signature, and the exact price signed for. Prices always come from the
+ * stored quote—the request only names a package key.
+ * ============================================================================
+ */
+import { ADD_ON_KEYS, type PricingCatalog } from './catalog';
+import { findPromotion } from './discounts';
+import { estimateJobDuration, type JobDuration } from './duration';
+import { calculateQuoteWithMaterial, type AddOnSelection, type PackageQuote } from './pricing';
+import { releasePromoUse, reservePromoUse } from './promo-usage';
+import {
+  getQuote,
+  getQuoteStatus,
+  isQuoteExpired,
+  recordAcceptance,
+  type AcceptedPrice,
+  type QuoteAcceptance,
+  type QuoteSignature,
+  type StoredQuote,
+} from './quote-store';
+import { repriceExpiredQuote, RepricingError } from './quote-repricing';
+import { QUOTE_TERMS_VERSION } from './quote-terms';
+
+/**
+ * Why a quote acceptance was rejected
+ */
+export enum AcceptanceError {
+  ALREADY_ACCEPTED = 'ALREADY_ACCEPTED',
+  INCOMPLETE = 'INCOMPLETE',
+  TERMS_CHANGED = 'TERMS_CHANGED',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  UNKNOWN_PACKAGE = 'UNKNOWN_PACKAGE',
+  PRICE_CHANGED = 'PRICE_CHANGED',
+  REPRICING_FAILED = 'REPRICING_FAILED',
+  PROMO_LIMIT_REACHED = 'PROMO_LIMIT_REACHED',
+}
+
+/**
+ * What the customer submitted from the acceptance form
+ */
+export interface AcceptanceRequest {
+  packageKey?: string;
+  addressConfirmed: boolean;
+  termsAccepted: boolean;
+  termsVersion: string;
+  signature: QuoteSignature;
+}
+
+/**
+ * Where the acceptance came from (recorded as evidence of the signature)
+ */
+export interface AcceptanceClient {
+  ip: string;
+  userAgent: string;
+}
+
+export interface AcceptanceResult {
+  quote: StoredQuote;            // Latest stored quote (re-priced if it had expired)
+  acceptance?: QuoteAcceptance;
+  error?: AcceptanceError;
+  repricingError?: RepricingError;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_SIGNATURE_IMAGE_LENGTH = 200_000; // ~150KB PNG, far above a hand-drawn signature
+const SIGNATURE_IMAGE_PREFIX = 'data:image/png;base64,';
+
+function isValidSignature({ method, name, image }: QuoteSignature): boolean {
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (trimmedName.length < 2 || trimmedName.length > MAX_NAME_LENGTH) {
+    return false;
+  }
+  if (method === 'typed') {
+    return image === undefined;
+  }
+  return (
+    method === 'drawn' &&
+    typeof image === 'string' &&
+    image.startsWith(SIGNATURE_IMAGE_PREFIX) &&
+    image.length <= MAX_SIGNATURE_IMAGE_LENGTH &&
+    /^[A-Za-z0-9+/]+=*$/.test(image.slice(SIGNATURE_IMAGE_PREFIX.length))
+  );
+}
+
+// Labour for a package: re-price its services and add-ons on the same property
+function estimatePackageDuration(
+  { input, routing }: StoredQuote,
+  selected: PackageQuote,
+  catalog: PricingCatalog
+): JobDuration {
+  const addOns = Object.fromEntries(
+    ADD_ON_KEYS.map((key) => [key, selected.addOns.includes(key)])
+  ) as AddOnSelection;
+  const quote = calculateQuoteWithMaterial({ ...input, services: selected.services, addOns }, catalog);
+  return estimateJobDuration(
+    { quote, squareFeet: input.squareFeet, stories: input.stories, driveMinutes: routing.durationMinutes },
+    catalog
+  );
+}
+
+/**
+ * Price snapshot for the customer's own selection or one of the quote's
+ * packages, with the job duration it implies. Undefined if the package key
+ * isn't priced on this quote.
+ */
+export function getAcceptedPrice(
+  stored: StoredQuote,
+  catalog: PricingCatalog,
+  packageKey?: string
+): AcceptedPrice | undefined {
+  const { input, quote } = stored;
+  if (!packageKey) {
+    return {
+      name: 'Your selection',
+      services: input.services ?? ['houseWash'],
+      addOns: quote.breakdown.addOns.map((item) => item.key),
+      total: quote.total,
+      taxTotal: quote.taxTotal,
+      minPrice: quote.minPrice,
+      maxPrice: quote.maxPrice,
+      catalogVersion: quote.catalogVersion,
+      ...(quote.breakdown.discount && { discountCode: quote.breakdown.discount.code }),
+      duration: stored.duration,
+    };
+  }
+
+  const selected = quote.packages.find((servicePackage) => servicePackage.key === packageKey);
+  if (!selected) {
+    return undefined;
+  }
+  return {
+    packageKey: selected.key,
+    name: selected.name,
+    services: selected.services,
+    addOns: selected.addOns,
+    total: selected.total,
+    taxTotal: selected.taxTotal,
+    minPrice: selected.minPrice,
+    maxPrice: selected.maxPrice,
+    catalogVersion: quote.catalogVersion,
+    ...(selected.discountCode && { discountCode: selected.discountCode }),
+    duration: estimatePackageDuration(stored, selected, catalog),
+  };
+}
+
+/**
+ * Validate and record a customer's acceptance of a stored quote.
+ * Returns the recorded acceptance, or the first rule that rejected it.
+ */
+export async function acceptQuote(
+  stored: StoredQuote,
+  request: AcceptanceRequest,
+  client: AcceptanceClient,
+  catalog: PricingCatalog
+): Promise<AcceptanceResult> {
+  if (stored.acceptance) {
+    return { quote: stored, error: AcceptanceError.ALREADY_ACCEPTED };
+  }
+
+  // CONSENT: Both boxes ticked, against the wording currently on the page
+  if (request.addressConfirmed !== true || request.termsAccepted !== true) {
+    return { quote: stored, error: AcceptanceError.INCOMPLETE };
+  }
+  if (request.termsVersion !== QUOTE_TERMS_VERSION) {
+    return { quote: stored, error: AcceptanceError.TERMS_CHANGED };
+  }
+
+  if (!request.signature || !isValidSignature(request.signature)) {
+    return { quote: stored, error: AcceptanceError.INVALID_SIGNATURE };
+  }
+
+  // EXPIRY: Never accept a lapsed price—re-price and have the customer review it
+  // (a booked quote keeps the price it was booked at; see isPriceLocked)
+  let quote = stored;
+  if (isQuoteExpired(quote)) {
+    const repriced = await repriceExpiredQuote(quote, catalog);
+    quote = repriced.quote;
+    if (repriced.error) {
+      return { quote, error: AcceptanceError.REPRICING_FAILED, repricingError: repriced.error };
+    }
+    if ((quote.repricing?.changes.length ?? 0) > 0) {
+      return { quote, error: AcceptanceError.PRICE_CHANGED };
+    }
+  }
+
+  const price = getAcceptedPrice(quote, catalog, request.packageKey);
+  if (!price) {
+    return { quote, error: AcceptanceError.UNKNOWN_PACKAGE };
+  }
+
+  const { method, name, image } = request.signature;
+  const acceptance: QuoteAcceptance = {
+    acceptedAt: new Date().toISOString(),
+    ip: client.ip,
+    userAgent: client.userAgent,
+    address: quote.input.address,
+    termsVersion: QUOTE_TERMS_VERSION,
+    signature: { method, name: name.trim(), ...(method === 'drawn' && { image }) },
+    price,
+  };
+
+  // USAGE CAP: A use is counted only if the price being signed for took the discount
+  const promotion = price.discountCode ? findPromotion(price.discountCode, catalog) : undefined;
+  if (promotion && !(await reservePromoUse(promotion))) {
+    return { quote, error: AcceptanceError.PROMO_LIMIT_REACHED };
+  }
+
+  // ATOMICITY: A concurrent submission may have signed first
+  if (!(await recordAcceptance(quote.id, acceptance))) {
+    if (promotion) await releasePromoUse(promotion);
+    return { quote: (await getQuote(quote.id)) ?? quote, error: AcceptanceError.ALREADY_ACCEPTED };
+  }
+  const accepted = { ...quote, acceptance };
+  return { quote: { ...accepted, status: getQuoteStatus(accepted) }, acceptance };
+}
+
+/**
+ * Customer-facing explanation for a rejected acceptance.
+ */
+export function getAcceptanceErrorMessage(error: AcceptanceError): string {
+  switch (error) {
+    case AcceptanceError.ALREADY_ACCEPTED:
+      return 'This quote has already been accepted.';
+    case AcceptanceError.INCOMPLETE:
+      return 'Please confirm your address and agree to the terms.';
+    case AcceptanceError.TERMS_CHANGED:
+      return 'Our terms have been updated. Please reload the page and review them.';
+    case AcceptanceError.INVALID_SIGNATURE:
+      return 'Please enter your full name and sign.';
+    case AcceptanceError.UNKNOWN_PACKAGE:
+      return 'That package is not available for this quote.';
+    case AcceptanceError.PRICE_CHANGED:
+      return 'Your quote has expired and was updated with current pricing. Please review the new price and sign again.';
+    case AcceptanceError.REPRICING_FAILED:
+      return 'Your quote has expired and can no longer be accepted online. Please contact us for an updated quote.';
+    case AcceptanceError.PROMO_LIMIT_REACHED:
+      return 'The promo code on this quote has reached its usage limit. Please contact us for an updated quote.';
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * ============================================================================
+ * EXPIRED QUOTE RE-PRICING
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Rates change with the season and the pricing catalog, so an emailed range
+ * only holds until the quote expires. When an expired quote is opened (or
+ * accepted), it is re-priced from the stored inputs against today's catalog
+ * and routing, and the customer is shown what changed.
+ *
+ * FLOW:
+ * 1. Routing → calculateRouting from the stored address and coordinates
+ *    (provider down → provisional estimate, same as a new quote)
+ * 2. Pricing → calculateQuoteWithMaterial with the stored inputs; the
+ *    applied promo code (selection or package) is re-checked against
+ *    today's rules and usage cap (uses are counted on acceptance, not here)
+ * 3. Compare → list every priced line that moved, old vs new
+ * 4. Store → new breakdown, fresh expiry, and the change list; status is
+ *    re-derived from what is stored then, and a provisional re-price joins
+ *    the owner review queue like a new provisional quote
+ *
+ * A quote that can no longer be priced online (address now outside the
+ * service area, material moved to manual review) stays expired and the
+ * customer is asked to contact us. Accepted, paid or booked quotes are left
+ * untouched—they keep the price and duration the customer agreed to.
+ * ============================================================================
+ */
+import type { PricingCatalog } from './catalog';
+import { findPromotion } from './discounts';
+import { estimateJobDuration } from './duration';
+import {
+  calculateProvisionalRouting,
+  calculateQuoteWithMaterial,
+  calculateRouting,
+  findMaterial,
+  getAppliedPromoCode,
+  RoutingError,
+  type QuoteBreakdown,
+} from './pricing';
+import { hasPromoUsesLeft } from './promo-usage';
+import {
+  getExpiryDate,
+  getQuoteStatus,
+  isPriceLocked,
+  refreshStatus,
+  updateQuote,
+  type QuoteChange,
+  type StoredQuote,
+} from './quote-store';
+import { queueForOwnerReview } from './review-queue';
+import { withRoutingCache } from './routing-cache';
+import { getRoutingProvider } from './routing-providers';
+
+/**
+ * Why an expired quote could not be re-priced online
+ */
+export enum RepricingError {
+  OUT_OF_SERVICE_AREA = 'OUT_OF_SERVICE_AREA',
+  ROUTING_UNAVAILABLE = 'ROUTING_UNAVAILABLE',
+  MANUAL_REVIEW = 'MANUAL_REVIEW',
+}
+
+export interface RepricingResult {
+  quote: StoredQuote;     // Re-priced quote, or the original when repricing failed
+  error?: RepricingError;
+}
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Label and amount of every priced line, keyed so old and new can be paired up
+function describeLines({ breakdown }: QuoteBreakdown): Map<string, { label: string; amount: number }> {
+  const lines = new Map<string, { label: string; amount: number }>();
+  if (breakdown.basePrice > 0) lines.set('base', { label: 'Base Service', amount: breakdown.basePrice });
+  if (breakdown.materialSurcharge > 0) {
+    lines.set('material', { label: 'Material Surcharge', amount: breakdown.materialSurcharge });
+  }
+  if (breakdown.condition) lines.set('condition', { label: 'Property Condition', amount: breakdown.condition.amount });
+  breakdown.services.forEach((item) => lines.set(`service:${item.key}`, { label: item.label, amount: item.price }));
+  breakdown.addOns.forEach((item) => lines.set(`addOn:${item.key}`, { label: item.label, amount: item.price }));
+  if (breakdown.discount) {
+    lines.set('discount', { label: `Discount (${breakdown.discount.code})`, amount: -breakdown.discount.amount });
+  }
+  if (breakdown.travelSurcharge > 0) lines.set('travel', { label: 'Travel Surcharge', amount: breakdown.travelSurcharge });
+  if (breakdown.minimumChargeAdjustment > 0) {
+    lines.set('minimum', { label: 'Minimum Job Charge Adjustment', amount: breakdown.minimumChargeAdjustment });
+  }
+  breakdown.taxes.forEach((tax) => lines.set(`tax:${tax.name}`, { label: tax.name, amount: tax.amount }));
+  return lines;
+}
+
+/**
+ * List what moved between two pricings of the same quote, price range first.
+ */
+export function compareQuotes(previous: QuoteBreakdown, current: QuoteBreakdown): QuoteChange[] {
+  const changes: QuoteChange[] = [];
+  if (previous.minPrice !== current.minPrice || previous.maxPrice !== current.maxPrice) {
+    changes.push({
+      label: 'Price range',
+      before: `$${previous.minPrice.toLocaleString()} - $${previous.maxPrice.toLocaleString()}`,
+      after: `$${current.minPrice.toLocaleString()} - $${current.maxPrice.toLocaleString()}`,
+    });
+  }
+
+  const before = describeLines(previous);
+  const after = describeLines(current);
+  new Set([...before.keys(), ...after.keys()]).forEach((key) => {
+    const oldLine = before.get(key);
+    const newLine = after.get(key);
+    if (oldLine?.amount === newLine?.amount) return;
+    changes.push({
+      label: (newLine ?? oldLine)!.label,
+      before: oldLine ? formatMoney(oldLine.amount) : 'Not charged',
+      after: newLine ? formatMoney(newLine.amount) : 'Not charged',
+    });
+  });
+  return changes;
+}
+
+/**
+ * Re-price an expired quote against the current catalog and routing,
+ * store the result with a fresh expiry, and report what changed.
+ */
+export async function repriceExpiredQuote(
+  stored: StoredQuote,
+  catalog: PricingCatalog
+): Promise<RepricingResult> {
+  if (isPriceLocked(stored)) {
+    return { quote: stored };
+  }
+
+  const { input } = stored;
+  const services = input.services ?? ['houseWash'];
+
+  // Materials the catalog now sends to manual review can't be priced online
+  if (services.includes('houseWash') && findMaterial(input.material, catalog)?.manualReview) {
+    return { quote: stored, error: RepricingError.MANUAL_REVIEW };
+  }
+
+  let routing = await calculateRouting(input.address, catalog, input.location, withRoutingCache(getRoutingProvider()));
+  if (routing.error === RoutingError.API_ERROR) {
+    routing = await calculateProvisionalRouting(input.address, catalog, input.location);
+  }
+  if (!routing.isValid) {
+    return {
+      quote: stored,
+      error: routing.error === RoutingError.OUT_OF_SERVICE_AREA
+        ? RepricingError.OUT_OF_SERVICE_AREA
+        : RepricingError.ROUTING_UNAVAILABLE,
+    };
+  }
+
+  // PROMO: Re-checked against today's rules and usage cap; a capped code is dropped
+  const found = input.appliedPromoCode ? findPromotion(input.appliedPromoCode, catalog) : undefined;
+  const promotion = found && (await hasPromoUsesLeft(found)) ? found : undefined;
+  const quote = calculateQuoteWithMaterial(
+    { ...input, travelSurcharge: routing.travelSurcharge, promotion },
+    catalog
+  );
+  const duration = estimateJobDuration(
+    { quote, squareFeet: input.squareFeet, stories: input.stories, driveMinutes: routing.durationMinutes },
+    catalog
+  );
+
+  const repricedAt = new Date();
+  const fields = {
+    catalogVersion: quote.catalogVersion,
+    input: { ...input, travelSurcharge: routing.travelSurcharge, appliedPromoCode: getAppliedPromoCode(quote) },
+    routing,
+    quote,
+    duration,
+    expiresAt: getExpiryDate(catalog.pricePolicy.quoteValidityDays, repricedAt),
+    repricing: {
+      repricedAt: repricedAt.toISOString(),
+      previous: {
+        minPrice: stored.quote.minPrice,
+        maxPrice: stored.quote.maxPrice,
+        catalogVersion: stored.quote.catalogVersion,
+      },
+      changes: compareQuotes(stored.quote, quote),
+    },
+  };
+  // Status is left to refreshStatus: an acceptance may have landed meanwhile
+  await updateQuote(stored.id, fields);
+  await refreshStatus(stored.id);
+
+  // OWNER REVIEW: Provisional travel waits for the owner, as for a new quote
+  if (routing.provisional) {
+    await queueForOwnerReview({
+      reason: 'provisional-routing',
+      quoteId: stored.id,
+      address: input.address,
+      customerEmail: input.customerEmail,
+      minPrice: quote.minPrice,
+      maxPrice: quote.maxPrice,
+      distance: routing.distance,
+      catalogVersion: quote.catalogVersion,
+      queuedAt: repricedAt.toISOString(),
+    });
+  }
+
+  const repriced = { ...stored, ...fields };
+  return { quote: { ...repriced, status: getQuoteStatus(repriced) } };
+}
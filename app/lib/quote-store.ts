@@ -0,0 +1,380 @@
+/**
+ * Persists every priced quote in Upstash Redis so a lead survives a bounced
+ * email and both sides can refer to it by ID.
+ *
+ * STORAGE:
+ * One hash per quote at `quote:<id>`. Fields hold JSON documents (inputs,
+ * routing result, breakdown, duration) plus a top-level `status`, so later
+ * steps can update the status without rewriting the quote.
+ *
+ * IDS:
+ * `Q-` + 8 characters of Crockford base32 (no I, L, O, U), easy to read
+ * over the phone. New IDs are claimed with HSETNX, so a collision can never
+ * overwrite an existing quote.
+ *
+ * EXPIRY:
+ * Quotes hold for the catalog's `pricePolicy.quoteValidityDays`. Opening an
+ * expired quote re-prices it (quote-repricing.ts) and records what changed.
+ *
+ * ACCEPTANCE:
+ * A signed acceptance is written with HSETNX on its own `acceptance` field,
+ * so a double-submitted form can never replace the first signature.
+ * Deposit payments are recorded the same way, so a retried webhook can't
+ * send a second receipt, and so are bookings (one scheduled job per quote).
+ *
+ * DEPOSIT SESSIONS:
+ * Every checkout session a quote opens is kept in `quote:<id>:deposits`
+ * (session ID → request), each written with its own HSETNX. Two checkouts
+ * started at once both stay payable; `deposit` only shows the latest.
+ *
+ * ACCESS:
+ * IDs are meant to be read aloud, so they are not secrets. The customer's
+ * link to /quote/[id] also carries a random 192-bit access token; the page
+ * only renders when both match.
+ */
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { redis, isRedisConfigured } from './redis';
+import type { JobDuration } from './duration';
+import type { Coordinates } from './geo';
+import type { AddOnKey, QuoteBreakdown, QuoteInput, RoutingResult, ServiceKey } from './pricing';
+
+const ID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ID_LENGTH = 8;
+const MAX_ID_ATTEMPTS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const quoteKey = (id: string) => `quote:${id}`;
+const depositSessionsKey = (id: string) => `quote:${id}:deposits`;
+
+// Lifecycle of a stored quote
+export const QUOTE_STATUSES = ['quoted', 'pendingReview', 'accepted', 'depositPaid', 'booked'] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+/**
+ * Customer inputs as priced (after validation and sanitizing)
+ */
+export interface StoredQuoteInput extends Omit<QuoteInput, 'promotion' | 'now'> {
+  address: string;
+  customerEmail: string;
+  location: Coordinates;
+  promoCode?: string;        // Code the customer submitted, applied or not
+  appliedPromoCode?: string; // Code discounted on the selection or a package
+}
+
+/**
+ * One priced line that moved when an expired quote was re-priced
+ */
+export interface QuoteChange {
+  label: string;   // e.g. "Travel Surcharge", "Price range"
+  before: string;  // Formatted, e.g. "$12.50" or "$700 - $805"
+  after: string;
+}
+
+/**
+ * Latest re-pricing of an expired quote
+ */
+export interface QuoteRepricing {
+  repricedAt: string;                                                // ISO timestamp
+  previous: Pick<QuoteBreakdown, 'minPrice' | 'maxPrice' | 'catalogVersion'>;
+  changes: QuoteChange[];                                            // Empty = same price
+}
+
+/**
+ * Exact price the customer signed for—their own selection or a package
+ */
+export interface AcceptedPrice {
+  packageKey?: string; // Absent when the customer's own selection was accepted
+  name: string;        // e.g. "Your selection", "Full Exterior"
+  services: ServiceKey[];
+  addOns: AddOnKey[];
+  total: number;       // Pre-tax
+  taxTotal: number;
+  minPrice: number;    // Tax-inclusive
+  maxPrice: number;    // Tax-inclusive
+  catalogVersion: number;
+  discountCode?: string;  // Promo code discounted in this price (takes one use)
+  duration?: JobDuration; // Job length and crew for this selection (sizes the booking)
+}
+
+/**
+ * Customer's signature on a quote
+ */
+export interface QuoteSignature {
+  method: 'typed' | 'drawn';
+  name: string;   // Signer's full name (typed in both cases)
+  image?: string; // PNG data URL of the drawn signature
+}
+
+/**
+ * Signed acceptance of a quote
+ */
+export interface QuoteAcceptance {
+  acceptedAt: string;    // ISO timestamp
+  ip: string;
+  userAgent: string;
+  address: string;       // Service address the customer confirmed
+  termsVersion: string;  // QUOTE_TERMS_VERSION the customer agreed to
+  signature: QuoteSignature;
+  price: AcceptedPrice;
+}
+
+/**
+ * A deposit checkout session opened for an accepted quote
+ */
+export interface DepositRequest {
+  amount: number;      // Dollars
+  currency: string;
+  provider: string;    // Payment provider name
+  sessionId: string;   // Provider checkout session; the webhook must match one
+  requestedAt: string; // ISO timestamp
+}
+
+/**
+ * Deposit received, as confirmed by the payment provider's webhook
+ */
+export interface DepositPayment {
+  amount: number;    // Dollars
+  currency: string;
+  provider: string;
+  sessionId: string;
+  paymentId: string; // Provider's payment reference (refunds, disputes)
+  paidAt: string;    // ISO timestamp
+}
+
+/**
+ * Package the customer picked on the quote result screen (not a signature)
+ */
+export interface QuotePackageSelection {
+  packageKey: string;
+  name: string;
+  selectedAt: string; // ISO timestamp
+}
+
+/**
+ * Scheduled job for a quote (availability.ts)
+ */
+export interface QuoteBooking {
+  crewKey: string;
+  crewName: string;
+  date: string;      // "YYYY-MM-DD", local to timeZone
+  start: string;     // "HH:MM"
+  end: string;       // "HH:MM", including travel
+  timeZone: string;  // Schedule's IANA time zone
+  bookedAt: string;  // ISO timestamp
+}
+
+/**
+ * Stored quote record interface
+ */
+export interface StoredQuote {
+  id: string;
+  createdAt: string;   // ISO timestamp
+  expiresAt: string;   // ISO timestamp; the quoted price is honoured until then
+  accessToken: string; // Secret in the customer's /quote/[id] link
+  status: QuoteStatus;
+  catalogVersion: number;
+  input: StoredQuoteInput;
+  routing: RoutingResult;
+  quote: QuoteBreakdown;
+  duration: JobDuration;
+  repricing?: QuoteRepricing; // Set once an expired quote has been re-priced
+  packageSelection?: QuotePackageSelection; // Latest package picked on the result screen
+  acceptance?: QuoteAcceptance; // Set once the customer signs
+  deposit?: DepositRequest;     // Latest deposit checkout started
+  payment?: DepositPayment;     // Set once the deposit is paid
+  booking?: QuoteBooking;       // Set once a time is reserved
+}
+
+/**
+ * Expiry timestamp for a quote priced at `from`.
+ */
+export function getExpiryDate(validityDays: number, from: Date = new Date()): string {
+  return new Date(from.getTime() + validityDays * DAY_MS).toISOString();
+}
+
+function generateQuoteId(): string {
+  // 256 is a multiple of 32, so every character is equally likely
+  return `Q-${Array.from(randomBytes(ID_LENGTH), (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join('')}`;
+}
+
+/**
+ * Store a newly priced quote. Returns the stored record (with its ID),
+ * or undefined if it could not be stored—the quote is still emailed.
+ */
+export async function saveQuote(
+  record: Omit<StoredQuote, 'id' | 'createdAt' | 'expiresAt' | 'accessToken'>,
+  validityDays: number
+): Promise<StoredQuote | undefined> {
+  if (!isRedisConfigured) {
+    console.warn('Redis not configured, quote not stored:', record.input.address);
+    return undefined;
+  }
+
+  try {
+    for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+      const id = generateQuoteId();
+      if ((await redis.hsetnx(quoteKey(id), 'id', id)) === 0) continue;
+
+      const createdAt = new Date();
+      const stored: StoredQuote = {
+        id,
+        createdAt: createdAt.toISOString(),
+        expiresAt: getExpiryDate(validityDays, createdAt),
+        accessToken: randomBytes(24).toString('base64url'),
+        ...record,
+      };
+      await redis.hset(quoteKey(id), { ...stored });
+      return stored;
+    }
+    console.error('Failed to allocate a unique quote ID');
+    return undefined;
+  } catch (error) {
+    console.error('Failed to store quote:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Look up a stored quote by ID (case-insensitive). Null if unknown.
+ */
+export async function getQuote(id: string): Promise<StoredQuote | null> {
+  if (!isRedisConfigured) {
+    return null;
+  }
+  const stored = await redis.hgetall<Record<string, unknown>>(quoteKey(id.trim().toUpperCase()));
+  return stored && stored.quote ? (stored as unknown as StoredQuote) : null;
+}
+
+/**
+ * Overwrite fields of a stored quote (e.g. after re-pricing).
+ * The ID, creation time and access token never change.
+ */
+export async function updateQuote(
+  id: string,
+  fields: Partial<Omit<StoredQuote, 'id' | 'createdAt' | 'accessToken'>>
+): Promise<void> {
+  await redis.hset(quoteKey(id), { ...fields });
+}
+
+type StatusFields = Pick<StoredQuote, 'routing' | 'acceptance' | 'payment' | 'booking'>;
+
+/**
+ * Lifecycle status implied by a quote's milestones. The furthest one reached
+ * wins, whatever order they were recorded in; before any, provisional
+ * quotes wait for owner review.
+ */
+export function getQuoteStatus(quote: StatusFields): QuoteStatus {
+  if (quote.booking) return 'booked';
+  if (quote.payment) return 'depositPaid';
+  if (quote.acceptance) return 'accepted';
+  return quote.routing.provisional ? 'pendingReview' : 'quoted';
+}
+
+/**
+ * Re-derive `status` from what is stored now, after any write that can
+ * change it. Never trusts a caller's copy, so status can't move backwards.
+ */
+export async function refreshStatus(id: string): Promise<void> {
+  const fields = await redis.hmget<StatusFields>(quoteKey(id), 'routing', 'acceptance', 'payment', 'booking');
+  if (fields?.routing) {
+    await redis.hset(quoteKey(id), { status: getQuoteStatus(fields) });
+  }
+}
+
+/**
+ * Record the customer's signed acceptance. Returns false if the quote was
+ * already accepted—the first signature always stands.
+ */
+export async function recordAcceptance(id: string, acceptance: QuoteAcceptance): Promise<boolean> {
+  if ((await redis.hsetnx(quoteKey(id), 'acceptance', acceptance)) === 0) {
+    return false;
+  }
+  await refreshStatus(id);
+  return true;
+}
+
+/**
+ * Record a deposit checkout session. Earlier sessions stay payable.
+ */
+export async function recordDepositCheckout(id: string, deposit: DepositRequest): Promise<void> {
+  await redis.hsetnx(depositSessionsKey(id), deposit.sessionId, deposit);
+  await redis.hset(quoteKey(id), { deposit });
+}
+
+/**
+ * A checkout session this quote opened, or null if it never opened it.
+ */
+export async function getDepositCheckout(id: string, sessionId: string): Promise<DepositRequest | null> {
+  return redis.hget<DepositRequest>(depositSessionsKey(id), sessionId);
+}
+
+/**
+ * Record a paid deposit. Returns false if a payment was already recorded
+ * (payment webhooks are retried until acknowledged).
+ */
+export async function recordDepositPayment(id: string, payment: DepositPayment): Promise<boolean> {
+  if ((await redis.hsetnx(quoteKey(id), 'payment', payment)) === 0) {
+    return false;
+  }
+  await refreshStatus(id);
+  return true;
+}
+
+/**
+ * Record a scheduled job. Returns false if the quote was already booked.
+ */
+export async function recordBooking(id: string, booking: QuoteBooking): Promise<boolean> {
+  if ((await redis.hsetnx(quoteKey(id), 'booking', booking)) === 0) {
+    return false;
+  }
+  await refreshStatus(id);
+  return true;
+}
+
+/**
+ * Whether a customer-supplied token unlocks a stored quote.
+ */
+export function canAccessQuote(quote: StoredQuote, token: string | undefined): boolean {
+  if (typeof token !== 'string' || !token) {
+    return false;
+  }
+  // Byte lengths, not string lengths: timingSafeEqual throws on a mismatch
+  const tokenBytes = Buffer.from(token);
+  const expectedBytes = Buffer.from(quote.accessToken);
+  return tokenBytes.length === expectedBytes.length && timingSafeEqual(tokenBytes, expectedBytes);
+}
+
+/**
+ * Whether the quoted price has lapsed.
+ */
+export function isQuoteExpired(quote: StoredQuote, now: Date = new Date()): boolean {
+  return Date.parse(quote.expiresAt) <= now.getTime();
+}
+
+/**
+ * Whether the customer has committed to the stored price (accepted, paid or
+ * booked). Committed quotes are never re-priced, even once expired.
+ */
+export function isPriceLocked(quote: StoredQuote): boolean {
+  return Boolean(quote.acceptance || quote.payment || quote.booking);
+}
+
+/**
+ * Owner sign-off on a provisional quote: its estimated travel stands, and
+ * the quote can now be booked.
+ */
+export async function confirmProvisionalRouting(quote: StoredQuote): Promise<StoredQuote> {
+  const routing = { ...quote.routing, provisional: false };
+  await updateQuote(quote.id, { routing });
+  await refreshStatus(quote.id);
+  const confirmed = { ...quote, routing };
+  return { ...confirmed, status: getQuoteStatus(confirmed) };
+}
+
+/**
+ * Customer link to the quote detail page, e.g. for the quote email.
+ */
+export function getQuoteUrl(quote: StoredQuote, siteUrl: string): string {
+  return `${siteUrl.replace(/\/$/, '')}/quote/${quote.id}?token=${encodeURIComponent(quote.accessToken)}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Terms the customer agrees to when accepting a quote online.
+ *
+ * Shown on the /quote/[id] acceptance form and recorded by version with each
+ * signature, so an accepted quote always points at the wording the customer
+ * saw. Bump the version whenever the wording changes.
+ */
+
+export const QUOTE_TERMS_VERSION = '2026-10-01';
+
+export const QUOTE_TERMS = [
+  'The final price falls within the accepted range and is confirmed once we have seen the property on the day of service.',
+  'Provisional quotes may still change by the travel surcharge once we confirm the driving distance.',
+  'We will contact you to schedule the work. You may cancel free of charge up to 48 hours before the scheduled visit.',
+  'Please close windows and doors, move vehicles and furniture clear of the work areas, and give us access to an outdoor water tap.',
+  'Payment is due on completion unless a deposit has been arranged.',
+];
@@ -0,0 +1,12 @@
+import { Redis } from '@upstash/redis';
+
+// Shared Upstash client (rate limiting, pricing catalog, caches)
+export const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+// Local development runs without Upstash credentials—callers skip Redis then
+export const isRedisConfigured = Boolean(
+  process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN
+);
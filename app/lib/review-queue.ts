@@ -0,0 +1,44 @@
+/**
+ * Owner review queue for quotes that need a human check before confirming
+ * (e.g. provisional quotes priced while the routing provider was down).
+ *
+ * Entries are JSON documents pushed onto the `quotes:review-queue` list in
+ * Upstash Redis, newest first. The owner email is the primary alert—the
+ * queue is the durable to-do list behind it.
+ */
+import { redis, isRedisConfigured } from './redis';
+
+const REVIEW_QUEUE_KEY = 'quotes:review-queue';
+
+/**
+ * Quote awaiting owner review
+ */
+export interface ReviewQueueEntry {
+  reason: string;        // Why the quote needs review, e.g. "provisional-routing"
+  quoteId?: string;      // Stored quote (see quote-store.ts), when it was stored
+  address: string;
+  customerEmail: string;
+  minPrice: number;
+  maxPrice: number;
+  distance: number;      // Estimated km used for the travel surcharge
+  catalogVersion: number;
+  queuedAt: string;      // ISO timestamp
+}
+
+/**
+ * Add a quote to the review queue. Returns false if it could not be stored.
+ */
+export async function queueForOwnerReview(entry: ReviewQueueEntry): Promise<boolean> {
+  if (!isRedisConfigured) {
+    console.warn('Redis not configured, review queue entry not stored:', entry.address);
+    return false;
+  }
+
+  try {
+    await redis.lpush(REVIEW_QUEUE_KEY, JSON.stringify(entry));
+    return true;
+  } catch (error) {
+    console.error('Failed to queue quote for review:', error);
+    return false;
+  }
+}
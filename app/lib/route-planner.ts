@@ -0,0 +1,321 @@
+/**
+ * ============================================================================
+ * DAILY ROUTE PLANNER
+ * ============================================================================
+ *
+ * PURPOSE:
+ * Orders each crew's booked jobs for a day and works out when the crew
+ * reaches each one, for the printable run sheet (/api/admin/run-sheet).
+ *
+ * INPUTS:
+ * • Stops: every quote holding a crew's slots that day (availability.ts),
+ *   with its booked start and estimated time on site (duration.ts)
+ * • Depot: the crew's `depot`, else the first depot (pricing.ts getDepots)
+ * • Drives: one distance matrix across the day's depots and stops, built
+ *   through the routing layer—one provider call per destination
+ *
+ * SEQUENCE:
+ * Each stop should be reached inside its arrival window (booked start to
+ * start + arrivalWindowMinutes); a crew that is early waits. Orders are
+ * compared by minutes past those windows, then by total driving time.
+ * Up to MAX_EXACT_STOPS stops every order is tried; longer days start from
+ * booked order and improve it with 2-opt.
+ *
+ * FALLBACK:
+ * Pairs the routing provider can't answer are filled with straight-line
+ * estimates, and the plan is marked provisional.
+ * ============================================================================
+ */
+import { formatTime, getArrivalWindowEnd, getCrewDayQuoteIds, getJobDuration, toMinutes } from './availability';
+import type { Crew, Depot, PricingCatalog } from './catalog';
+import { getDepots } from './pricing';
+import { getQuote, type QuoteBooking, type StoredQuote } from './quote-store';
+import {
+  createHaversineRoutingProvider,
+  type RouteLeg,
+  type RoutePoint,
+  type RoutingProvider,
+} from './routing-providers';
+
+// 8! = 40,320 orders—still instant
+const MAX_EXACT_STOPS = 8;
+
+const NO_DRIVE: RouteLeg = { distanceKm: 0, durationMinutes: 0 };
+
+/**
+ * One job on a crew's run sheet
+ */
+export interface RunSheetStop {
+  quoteId: string;
+  address: string;
+  customerEmail: string;
+  job: string;            // Accepted package name, or "Not accepted yet"
+  booking: QuoteBooking;
+  arriveBy: string;       // "HH:MM", end of the arrival window
+  eta: string;            // "HH:MM"
+  leaveAt: string;        // "HH:MM", after the estimated time on site
+  onSiteMinutes: number;
+  crewSize: number;
+  driveMinutes: number;   // From the previous stop (or the depot)
+  distanceKm: number;
+  lateMinutes: number;    // Past arriveBy; 0 = on time
+}
+
+/**
+ * A crew's day: depot → stops in order → depot
+ */
+export interface CrewRoute {
+  crewKey: string;
+  crewName: string;
+  depot: string;          // Depot name
+  departAt?: string;      // "HH:MM"; absent when the crew has no stops
+  returnAt?: string;
+  stops: RunSheetStop[];
+  driveMinutes: number;   // Whole day, including the drive back
+  distanceKm: number;
+  lateMinutes: number;
+}
+
+/**
+ * Every crew's route for one date
+ */
+export interface DayPlan {
+  date: string;
+  timeZone: string;
+  crews: CrewRoute[];
+  provisional: boolean;   // Some drives are straight-line estimates
+  generatedAt: string;    // ISO timestamp
+}
+
+// A booked job, positioned in the distance matrix
+interface PlannedStop {
+  quote: StoredQuote;
+  booking: QuoteBooking;
+  point: number;          // Row/column in the distance matrix
+  windowStart: number;    // Minutes since midnight
+  windowEnd: number;
+  onSiteMinutes: number;
+}
+
+interface RouteTiming {
+  arrivals: number[];     // Per stop, minutes since midnight
+  departAt: number;
+  returnAt: number;
+  driveMinutes: number;
+  distanceKm: number;
+  lateMinutes: number;
+}
+
+type DistanceMatrix = RouteLeg[][]; // [from][to]
+
+// Quotes holding the crew's slots, skipping any whose booking has since moved
+async function loadCrewQuotes(date: string, crew: Crew): Promise<StoredQuote[]> {
+  const quotes = await Promise.all((await getCrewDayQuoteIds(date, crew.key)).map((id) => getQuote(id)));
+  return quotes.filter(
+    (quote): quote is StoredQuote => quote?.booking?.date === date && quote.booking.crewKey === crew.key
+  );
+}
+
+// matrix[from][to], null where the provider had no answer
+async function requestMatrix(points: RoutePoint[], provider: RoutingProvider): Promise<(RouteLeg | null)[][]> {
+  const columns: (RouteLeg | null)[][] = [];
+  for (const destination of points) {
+    const { legs, error } = await provider.getDrivingLegs(points, destination);
+    columns.push(error ? [] : legs);
+  }
+  return points.map((_, from) => points.map((_, to) => (from === to ? NO_DRIVE : columns[to][from] ?? null)));
+}
+
+/**
+ * Driving legs between every pair of points. Gaps are filled with
+ * straight-line estimates (or no drive when a point has no coordinates).
+ */
+async function buildDistanceMatrix(
+  points: RoutePoint[],
+  provider: RoutingProvider
+): Promise<{ matrix: DistanceMatrix; provisional: boolean }> {
+  const legs = await requestMatrix(points, provider);
+  if (legs.every((row) => row.every(Boolean))) {
+    return { matrix: legs as DistanceMatrix, provisional: false };
+  }
+
+  console.warn('Route planner: routing provider left gaps, using straight-line estimates');
+  const estimates = await requestMatrix(points, createHaversineRoutingProvider());
+  return {
+    matrix: legs.map((row, from) => row.map((leg, to) => leg ?? estimates[from][to] ?? NO_DRIVE)),
+    provisional: true,
+  };
+}
+
+// Drive the route: leave the depot in time for the first stop, wait when early
+function simulateRoute(order: PlannedStop[], depot: number, matrix: DistanceMatrix): RouteTiming {
+  const departAt = order[0].windowStart - matrix[depot][order[0].point].durationMinutes;
+  let clock = departAt;
+  let position = depot;
+  let driveMinutes = 0;
+  let distanceKm = 0;
+  let lateMinutes = 0;
+
+  const arrivals = order.map((stop) => {
+    const leg = matrix[position][stop.point];
+    const arrival = Math.max(clock + leg.durationMinutes, stop.windowStart);
+    lateMinutes += Math.max(0, arrival - stop.windowEnd);
+    driveMinutes += leg.durationMinutes;
+    distanceKm += leg.distanceKm;
+    clock = arrival + stop.onSiteMinutes;
+    position = stop.point;
+    return arrival;
+  });
+
+  const home = matrix[position][depot];
+  return {
+    arrivals,
+    departAt,
+    returnAt: clock + home.durationMinutes,
+    driveMinutes: driveMinutes + home.durationMinutes,
+    distanceKm: distanceKm + home.distanceKm,
+    lateMinutes,
+  };
+}
+
+// Fewer minutes late wins, then less driving, then home earlier
+function isBetterRoute(candidate: RouteTiming, best: RouteTiming): boolean {
+  if (candidate.lateMinutes !== best.lateMinutes) return candidate.lateMinutes < best.lateMinutes;
+  if (candidate.driveMinutes !== best.driveMinutes) return candidate.driveMinutes < best.driveMinutes;
+  return candidate.returnAt < best.returnAt;
+}
+
+function* permutations<T>(items: T[]): Generator<T[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let index = 0; index < items.length; index++) {
+    const rest = [...items.slice(0, index), ...items.slice(index + 1)];
+    for (const tail of permutations(rest)) {
+      yield [items[index], ...tail];
+    }
+  }
+}
+
+/**
+ * Best stop order for one crew. `stops` arrive in booked order, which is
+ * also the starting point for 2-opt on long days.
+ */
+function optimizeStopOrder(stops: PlannedStop[], depot: number, matrix: DistanceMatrix): PlannedStop[] {
+  let best = stops;
+  let bestTiming = simulateRoute(stops, depot, matrix);
+
+  if (stops.length <= MAX_EXACT_STOPS) {
+    for (const order of permutations(stops)) {
+      const timing = simulateRoute(order, depot, matrix);
+      if (isBetterRoute(timing, bestTiming)) {
+        best = order;
+        bestTiming = timing;
+      }
+    }
+    return best;
+  }
+
+  // 2-opt: reverse any stretch of the route while that improves it
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const order = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const timing = simulateRoute(order, depot, matrix);
+        if (isBetterRoute(timing, bestTiming)) {
+          best = order;
+          bestTiming = timing;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+function buildCrewRoute(
+  crew: Crew,
+  depot: Depot,
+  depotPoint: number,
+  stops: PlannedStop[],
+  matrix: DistanceMatrix
+): CrewRoute {
+  const route = { crewKey: crew.key, crewName: crew.name, depot: depot.name };
+  if (stops.length === 0) {
+    return { ...route, stops: [], driveMinutes: 0, distanceKm: 0, lateMinutes: 0 };
+  }
+
+  const order = optimizeStopOrder(stops, depotPoint, matrix);
+  const timing = simulateRoute(order, depotPoint, matrix);
+  return {
+    ...route,
+    departAt: formatTime(timing.departAt),
+    returnAt: formatTime(timing.returnAt),
+    stops: order.map((stop, index) => {
+      const leg = matrix[index === 0 ? depotPoint : order[index - 1].point][stop.point];
+      const arrival = timing.arrivals[index];
+      return {
+        quoteId: stop.quote.id,
+        address: stop.quote.input.address,
+        customerEmail: stop.quote.input.customerEmail,
+        job: stop.quote.acceptance?.price.name ?? 'Not accepted yet',
+        booking: stop.booking,
+        arriveBy: formatTime(stop.windowEnd),
+        eta: formatTime(arrival),
+        leaveAt: formatTime(arrival + stop.onSiteMinutes),
+        onSiteMinutes: stop.onSiteMinutes,
+        crewSize: getJobDuration(stop.quote).crewSize,
+        driveMinutes: leg.durationMinutes,
+        distanceKm: Math.round(leg.distanceKm * 10) / 10,
+        lateMinutes: Math.max(0, arrival - stop.windowEnd),
+      };
+    }),
+    driveMinutes: timing.driveMinutes,
+    distanceKm: Math.round(timing.distanceKm * 10) / 10,
+    lateMinutes: timing.lateMinutes,
+  };
+}
+
+/**
+ * Plan every crew's route for a date ("YYYY-MM-DD", local to the schedule).
+ */
+export async function planDay(date: string, catalog: PricingCatalog, provider: RoutingProvider): Promise<DayPlan> {
+  const { schedule } = catalog;
+  const depots = getDepots(catalog.routing);
+  const crewQuotes = await Promise.all(schedule.crews.map((crew) => loadCrewQuotes(date, crew)));
+  const crewDepots = schedule.crews.map((crew) => depots.find((depot) => depot.name === crew.depot) ?? depots[0]);
+
+  // Matrix points: each depot in use, then every stop
+  const usedDepots = [...new Set(crewDepots.filter((_, index) => crewQuotes[index].length > 0))];
+  const points: RoutePoint[] = usedDepots.map(({ address, location }) => ({ address, location }));
+  const crewStops = crewQuotes.map((quotes) =>
+    quotes.map((quote): PlannedStop => {
+      const booking = quote.booking as QuoteBooking;
+      points.push({ address: quote.input.address, location: quote.input.location });
+      return {
+        quote,
+        booking,
+        point: points.length - 1,
+        windowStart: toMinutes(booking.start),
+        windowEnd: toMinutes(getArrivalWindowEnd(booking, schedule)),
+        onSiteMinutes: Math.round(getJobDuration(quote).onSiteHours * 60),
+      };
+    })
+  );
+
+  const { matrix, provisional } =
+    points.length > 0 ? await buildDistanceMatrix(points, provider) : { matrix: [], provisional: false };
+
+  return {
+    date,
+    timeZone: schedule.timeZone,
+    crews: schedule.crews.map((crew, index) =>
+      buildCrewRoute(crew, crewDepots[index], usedDepots.indexOf(crewDepots[index]), crewStops[index], matrix)
+    ),
+    provisional,
+    generatedAt: new Date().toISOString(),
+  };
+}
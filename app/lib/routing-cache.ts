@@ -0,0 +1,112 @@
+/**
+ * Caches routing provider results in Upstash Redis.
+ *
+ * Re-submitting the same address (e.g. after fixing a typo in the email)
+ * shouldn't cost another Distance Matrix call.
+ *
+ * CACHE KEY:
+ * routing:legs:<provider>:<origins fingerprint>:<destination>
+ * • Destination: normalized address (google) or coordinates rounded to
+ *   ~11m (osrm), matching what each provider actually routes on
+ * • Origins fingerprint: hash of every depot address/location, so changing
+ *   OWNER_ADDRESS or the catalog's depots starts a fresh cache
+ *
+ * WHAT IS CACHED:
+ * Raw driving legs only. Zones, surcharge thresholds and the service radius
+ * are applied after the cache, so routing config edits take effect
+ * immediately without invalidation.
+ *
+ * METRICS:
+ * Hit/miss counters in the `routing:cache:stats` hash.
+ */
+import { createHash } from 'crypto';
+import { redis, isRedisConfigured } from './redis';
+import type { RouteMatrixResult, RoutePoint, RoutingProvider } from './routing-providers';
+
+const CACHE_KEY_PREFIX = 'routing:legs';
+const CACHE_STATS_KEY = 'routing:cache:stats';
+const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // Drive times barely move week to week
+
+// Providers that compute locally—a Redis round-trip would be slower
+const UNCACHED_PROVIDERS = new Set<RoutingProvider['name']>(['haversine', 'fake']);
+
+function getCacheTtlSeconds(): number {
+  const ttl = Number(process.env.ROUTING_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS;
+}
+
+/**
+ * Normalize an address so trivial differences share a cache entry.
+ * "123 Main St., Langley BC" and "123 main st langley, bc" match.
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function describePoint({ address, location }: RoutePoint, useCoordinates: boolean): string {
+  return useCoordinates && location
+    ? `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`
+    : normalizeAddress(address);
+}
+
+function buildCacheKey(provider: RoutingProvider, origins: RoutePoint[], destination: RoutePoint): string {
+  const useCoordinates = provider.name !== 'google';
+  const originsFingerprint = createHash('sha1')
+    .update(origins.map((origin) => `${normalizeAddress(origin.address)}@${origin.location?.lat},${origin.location?.lng}`).join('|'))
+    .digest('hex')
+    .slice(0, 12);
+  return `${CACHE_KEY_PREFIX}:${provider.name}:${originsFingerprint}:${describePoint(destination, useCoordinates)}`;
+}
+
+async function recordCacheOutcome(outcome: 'hits' | 'misses'): Promise<void> {
+  try {
+    await redis.hincrby(CACHE_STATS_KEY, outcome, 1);
+  } catch (error) {
+    console.error('Routing cache metrics update failed:', error);
+  }
+}
+
+/**
+ * Wrap a routing provider with the Redis cache.
+ * Without Redis (local development) the provider is returned unchanged.
+ */
+export function withRoutingCache(provider: RoutingProvider): RoutingProvider {
+  if (!isRedisConfigured || UNCACHED_PROVIDERS.has(provider.name)) {
+    return provider;
+  }
+
+  return {
+    name: provider.name,
+    async getDrivingLegs(origins, destination) {
+      const key = buildCacheKey(provider, origins, destination);
+
+      try {
+        const cached = await redis.get<RouteMatrixResult>(key);
+        if (cached) {
+          await recordCacheOutcome('hits');
+          return cached;
+        }
+      } catch (error) {
+        // A cache outage must never block a quote—fall through to the provider
+        console.error('Routing cache read failed:', error);
+      }
+
+      await recordCacheOutcome('misses');
+      const result = await provider.getDrivingLegs(origins, destination);
+
+      // Only cache real answers; provider errors should be retried next time
+      if (!result.error) {
+        try {
+          await redis.set(key, result, { ex: getCacheTtlSeconds() });
+        } catch (error) {
+          console.error('Routing cache write failed:', error);
+        }
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * ============================================================================
+ * ROUTING PROVIDERS
+ * ============================================================================
+ *
+ * PURPOSE:
+ * calculateRouting needs driving distance/time from each depot to the
+ * customer. Where those numbers come from is pluggable:
+ *
+ * ├─ google:    Google Maps Distance Matrix (default, uses addresses)
+ * ├─ osrm:      Self-hosted OSRM-compatible /table endpoint (uses coordinates)
+ * ├─ haversine: Straight-line distance × road factor—offline, no API calls
+ * └─ fake:      Fixed legs for local development and tests
+ *
+ * CONFIGURATION (environment):
+ * • ROUTING_PROVIDER: google | osrm | haversine | fake (default: google)
+ * • NEXT_PUBLIC_GOOGLE_MAPS_KEY: Google API key
+ * • OSRM_URL: Base URL of the OSRM server, e.g. http://localhost:5000
+ * • ROUTING_ROAD_FACTOR / ROUTING_AVERAGE_SPEED_KMH: haversine tuning
+ *
+ * CONTRACT:
+ * Providers never throw. They return one leg per origin (same order),
+ * `null` for origins with no route, or a RoutingError for the whole call.
+ * ============================================================================
+ */
+import { haversineDistanceKm, type Coordinates } from './geo';
+
+/**
+ * Error types for routing validation
+ */
+export enum RoutingError {
+  OUT_OF_SERVICE_AREA = 'OUT_OF_SERVICE_AREA',
+  API_ERROR = 'API_ERROR',
+  INVALID_ADDRESS = 'INVALID_ADDRESS',
+}
+
+export const ROUTING_PROVIDER_NAMES = ['google', 'osrm', 'haversine', 'fake'] as const;
+
+export type RoutingProviderName = (typeof ROUTING_PROVIDER_NAMES)[number];
+
+/**
+ * Route endpoint: providers use whichever form they support
+ */
+export interface RoutePoint {
+  address: string;
+  location?: Coordinates;
+}
+
+/**
+ * Driving leg from one origin to the destination
+ */
+export interface RouteLeg {
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+/**
+ * Provider response: one entry per origin, or an error for the whole request
+ */
+export interface RouteMatrixResult {
+  legs: (RouteLeg | null)[];
+  error?: RoutingError;
+}
+
+/**
+ * Routing provider interface
+ */
+export interface RoutingProvider {
+  name: RoutingProviderName;
+  getDrivingLegs(origins: RoutePoint[], destination: RoutePoint): Promise<RouteMatrixResult>;
+}
+
+// Straight lines undercount real roads; 1.3 is typical for suburban grids
+const DEFAULT_ROAD_FACTOR = 1.3;
+const DEFAULT_AVERAGE_SPEED_KMH = 50;
+
+const failed = (error: RoutingError): RouteMatrixResult => ({ legs: [], error });
+
+/**
+ * Google Maps Distance Matrix: all origins in one request.
+ */
+export function createGoogleRoutingProvider(apiKey: string | undefined): RoutingProvider {
+  return {
+    name: 'google',
+    async getDrivingLegs(origins, destination) {
+      if (!apiKey) {
+        console.error('Google Maps API key not configured');
+        return failed(RoutingError.API_ERROR);
+      }
+
+      try {
+        const originsParam = origins.map((origin) => encodeURIComponent(origin.address)).join('|');
+        const response = await fetch(
+          `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${originsParam}&destinations=${encodeURIComponent(destination.address)}&key=${apiKey}&mode=driving`
+        );
+
+        if (!response.ok) {
+          console.error('Distance Matrix API request failed:', response.statusText);
+          return failed(RoutingError.API_ERROR);
+        }
+
+        const data = await response.json();
+
+        if (data.status !== 'OK') {
+          console.error('Distance Matrix API error:', data.status, data.error_message);
+          return failed(RoutingError.API_ERROR);
+        }
+
+        if (!data.rows || data.rows.length === 0) {
+          return failed(RoutingError.INVALID_ADDRESS);
+        }
+
+        // One row per origin; elements[0] is the only destination
+        return {
+          legs: origins.map((origin, index) => {
+            const element = data.rows[index]?.elements?.[0];
+            if (!element) return null;
+            if (element.status !== 'OK') {
+              console.error('Distance Matrix element error:', origin.address, element.status);
+              return null;
+            }
+            return {
+              distanceKm: element.distance.value / 1000,
+              durationMinutes: Math.round(element.duration.value / 60),
+            };
+          }),
+        };
+      } catch (error) {
+        console.error('Distance Matrix request error:', error);
+        return failed(RoutingError.API_ERROR);
+      }
+    },
+  };
+}
+
+/**
+ * OSRM /table service: sources are the origins, the destination is last.
+ * OSRM routes between coordinates only, so origins need a `location`.
+ */
+export function createOsrmRoutingProvider(baseUrl: string | undefined): RoutingProvider {
+  return {
+    name: 'osrm',
+    async getDrivingLegs(origins, destination) {
+      if (!baseUrl) {
+        console.error('OSRM_URL not configured');
+        return failed(RoutingError.API_ERROR);
+      }
+      if (!destination.location) {
+        return failed(RoutingError.INVALID_ADDRESS);
+      }
+
+      // Origins without coordinates can't be routed; map results back by index
+      const located = origins.flatMap((origin, index) =>
+        origin.location ? [{ index, location: origin.location }] : []
+      );
+      if (located.length === 0) {
+        console.error('OSRM routing needs depot coordinates');
+        return failed(RoutingError.API_ERROR);
+      }
+
+      try {
+        const points = [...located.map((origin) => origin.location), destination.location]
+          .map(({ lat, lng }) => `${lng},${lat}`)
+          .join(';');
+        const sources = located.map((_, index) => index).join(';');
+        const response = await fetch(
+          `${baseUrl.replace(/\/$/, '')}/table/v1/driving/${points}?sources=${sources}&destinations=${located.length}&annotations=distance,duration`
+        );
+
+        if (!response.ok) {
+          console.error('OSRM request failed:', response.statusText);
+          return failed(RoutingError.API_ERROR);
+        }
+
+        const data = await response.json();
+
+        if (data.code !== 'Ok') {
+          console.error('OSRM error:', data.code, data.message);
+          return data.code === 'NoSegment' ? failed(RoutingError.INVALID_ADDRESS) : failed(RoutingError.API_ERROR);
+        }
+
+        const legs: (RouteLeg | null)[] = origins.map(() => null);
+        located.forEach((origin, row) => {
+          const meters = data.distances?.[row]?.[0];
+          const seconds = data.durations?.[row]?.[0];
+          if (typeof meters === 'number' && typeof seconds === 'number') {
+            legs[origin.index] = { distanceKm: meters / 1000, durationMinutes: Math.round(seconds / 60) };
+          }
+        });
+        return { legs };
+      } catch (error) {
+        console.error('OSRM request error:', error);
+        return failed(RoutingError.API_ERROR);
+      }
+    },
+  };
+}
+
+/**
+ * Offline estimate: straight-line distance stretched by a road factor.
+ */
+export function createHaversineRoutingProvider(
+  roadFactor = DEFAULT_ROAD_FACTOR,
+  averageSpeedKmh = DEFAULT_AVERAGE_SPEED_KMH
+): RoutingProvider {
+  return {
+    name: 'haversine',
+    async getDrivingLegs(origins, destination) {
+      if (!destination.location) {
+        return failed(RoutingError.INVALID_ADDRESS);
+      }
+      const destinationLocation = destination.location;
+
+      return {
+        legs: origins.map((origin) => {
+          if (!origin.location) return null;
+          const distanceKm = haversineDistanceKm(origin.location, destinationLocation) * roadFactor;
+          return {
+            distanceKm: Math.round(distanceKm * 10) / 10,
+            durationMinutes: Math.round((distanceKm / averageSpeedKmh) * 60),
+          };
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Deterministic provider for local development and tests.
+ * `legs[i]` answers origin i; origins past the end get `defaultLeg`.
+ */
+export function createFakeRoutingProvider({
+  legs = [],
+  defaultLeg = { distanceKm: 15, durationMinutes: 20 },
+  error,
+}: { legs?: (RouteLeg | null)[]; defaultLeg?: RouteLeg; error?: RoutingError } = {}): RoutingProvider {
+  return {
+    name: 'fake',
+    async getDrivingLegs(origins) {
+      if (error) {
+        return failed(error);
+      }
+      return { legs: origins.map((_, index) => (index < legs.length ? legs[index] : defaultLeg)) };
+    },
+  };
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Build the provider selected by ROUTING_PROVIDER (defaults to Google).
+ */
+export function getRoutingProvider(env: Record<string, string | undefined> = process.env): RoutingProvider {
+  const name = (env.ROUTING_PROVIDER || 'google').trim().toLowerCase();
+
+  switch (name) {
+    case 'osrm':
+      return createOsrmRoutingProvider(env.OSRM_URL);
+    case 'haversine':
+      return createHaversineRoutingProvider(
+        readPositiveNumber(env.ROUTING_ROAD_FACTOR, DEFAULT_ROAD_FACTOR),
+        readPositiveNumber(env.ROUTING_AVERAGE_SPEED_KMH, DEFAULT_AVERAGE_SPEED_KMH)
+      );
+    case 'fake':
+      return createFakeRoutingProvider({
+        defaultLeg: {
+          distanceKm: readPositiveNumber(env.FAKE_ROUTING_DISTANCE_KM, 15),
+          durationMinutes: 20,
+        },
+      });
+    case 'google':
+      return createGoogleRoutingProvider(env.NEXT_PUBLIC_GOOGLE_MAPS_KEY);
+    default:
+      console.warn(`Unknown ROUTING_PROVIDER "${name}", using google`);
+      return createGoogleRoutingProvider(env.NEXT_PUBLIC_GOOGLE_MAPS_KEY);
+  }
+}
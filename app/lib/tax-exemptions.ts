@@ -0,0 +1,24 @@
+/**
+ * Tax-exempt customers (e.g. status card holders, registered charities).
+ *
+ * The owner adds a customer's email to the `tax:exempt-customers` set in
+ * Upstash Redis once their exemption paperwork is on file. Exemption is
+ * never self-declared in the quote wizard.
+ */
+import { redis, isRedisConfigured } from './redis';
+
+const EXEMPT_CUSTOMERS_KEY = 'tax:exempt-customers';
+
+export async function isTaxExemptCustomer(email: string): Promise<boolean> {
+  if (!isRedisConfigured) {
+    return false;
+  }
+
+  try {
+    return (await redis.sismember(EXEMPT_CUSTOMERS_KEY, email.trim().toLowerCase())) === 1;
+  } catch (error) {
+    // Charging tax is the safe default—the owner can refund on the invoice
+    console.error('Tax exemption lookup failed:', error);
+    return false;
+  }
+}
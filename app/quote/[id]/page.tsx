@@ -0,0 +1,301 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import { notFound } from 'next/navigation';
+import BookingCalendar from '../../components/BookingCalendar';
+import DepositCheckout from '../../components/DepositCheckout';
+import QuoteAcceptance, { type AcceptanceOption } from '../../components/QuoteAcceptance';
+import { getPricingCatalog } from '../../lib/catalog-store';
+import { getDepositAmount } from '../../lib/deposits';
+import { getPaymentProvider } from '../../lib/payment-providers';
+import { canAccessQuote, getQuote, isPriceLocked, isQuoteExpired } from '../../lib/quote-store';
+import { repriceExpiredQuote, RepricingError } from '../../lib/quote-repricing';
+import { findMaterial, SERVICE_LABELS, TECHNIQUE_LABELS } from '../../lib/pricing';
+
+export const metadata: Metadata = {
+  title: 'Your Quote | Pressure Washing Water Boys',
+  robots: { index: false, follow: false }, // Private, tokenized links only
+};
+
+// 0.09975 → "9.975%", 0.05 → "5%"
+function formatTaxRate(rate: number) {
+  return `${Number((rate * 100).toFixed(3))}%`;
+}
+
+function formatDate(timestamp: string) {
+  return new Date(timestamp).toLocaleDateString('en-CA', { dateStyle: 'long' });
+}
+
+// "2026-10-21" → "Wednesday, October 21, 2026" (date-only, so format in UTC)
+function formatBookingDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-CA', { dateStyle: 'full', timeZone: 'UTC' });
+}
+
+// Why an expired quote needs a call instead of an online price
+const REPRICING_ERROR_MESSAGES: Record<RepricingError, string> = {
+  [RepricingError.OUT_OF_SERVICE_AREA]: 'Your address is no longer in our online service area.',
+  [RepricingError.ROUTING_UNAVAILABLE]: "We couldn't refresh the travel cost to your property right now.",
+  [RepricingError.MANUAL_REVIEW]: 'Your siding material is now priced after an on-site assessment.',
+};
+
+// Customers arrive from the quote email: /quote/Q-XXXXXXXX?token=...
+export default async function QuoteDetail({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string; deposit?: string }>;
+}) {
+  const { id } = await params;
+  const { token, deposit: depositReturn } = await searchParams;
+  let stored = await getQuote(id);
+
+  // Unknown IDs and wrong tokens look identical—an ID alone reveals nothing
+  if (!stored || !canAccessQuote(stored, token)) {
+    notFound();
+  }
+
+  // EXPIRY: Re-price an expired quote against today's catalog and routing,
+  // unless the customer already committed to its price
+  const catalog = await getPricingCatalog();
+  const priceLocked = isPriceLocked(stored);
+  let repricingError: RepricingError | undefined;
+  if (isQuoteExpired(stored) && !priceLocked) {
+    ({ quote: stored, error: repricingError } = await repriceExpiredQuote(stored, catalog));
+  }
+
+  const { input, quote, routing, duration, repricing } = stored;
+  const { breakdown } = quote;
+  const services = input.services ?? ['houseWash'];
+  const includesWash = services.includes('houseWash');
+  const materialLabel = findMaterial(input.material, catalog)?.label ?? input.material;
+  const isExpired = isQuoteExpired(stored) && !priceLocked;
+  const { acceptance, payment } = stored;
+
+  // DEPOSIT: Optional once accepted, and only when a payment provider is configured
+  const depositAmount =
+    acceptance && !payment && getPaymentProvider()
+      ? getDepositAmount(acceptance.price, catalog.pricePolicy)
+      : undefined;
+
+  // ACCEPTANCE: The customer's own selection first, then any Good/Better/Best packages
+  const acceptanceOptions: AcceptanceOption[] = [
+    { name: 'Your selection', minPrice: quote.minPrice, maxPrice: quote.maxPrice },
+    ...quote.packages.map((option) => ({
+      packageKey: option.key,
+      name: option.name,
+      description: option.description,
+      minPrice: option.minPrice,
+      maxPrice: option.maxPrice,
+    })),
+  ];
+
+  return (
+    <main className="min-h-screen px-6 py-12">
+      <div className="max-w-3xl mx-auto space-y-8">
+        <div className="text-center">
+          <p className="text-sm text-gray-500 font-mono">Quote {stored.id}</p>
+          <h1 className="text-4xl font-bold mt-2" style={{ color: '#2d3a6b' }}>
+            Your Quote
+          </h1>
+          <p className="text-lg text-gray-600 mt-2">{input.address}</p>
+        </div>
+
+        <div className="relative w-full h-72 rounded-2xl overflow-hidden shadow-lg">
+          <Image
+            src={`/api/satellite-image?lat=${input.location.lat}&lng=${input.location.lng}`}
+            alt="Your property"
+            fill
+            unoptimized
+            className="object-cover"
+          />
+        </div>
+
+        <div className="bg-white rounded-3xl shadow-lg p-8 space-y-6">
+          <div className="text-center">
+            <p className="text-gray-600">Estimated Price (incl. tax)</p>
+            <p className="text-4xl font-bold mt-1" style={{ color: '#2d3a6b' }}>
+              ${quote.minPrice.toLocaleString()} - ${quote.maxPrice.toLocaleString()}
+            </p>
+            {!priceLocked && (
+              <p className={`text-sm mt-2 ${isExpired ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                {isExpired ? `This quote expired on ${formatDate(stored.expiresAt)}` : `Valid until ${formatDate(stored.expiresAt)}`}
+              </p>
+            )}
+            {repricingError && (
+              <p className="text-sm text-red-700 bg-red-50 rounded-lg p-3 mt-4">
+                {REPRICING_ERROR_MESSAGES[repricingError]} Please contact us for an updated quote.
+              </p>
+            )}
+            {stored.status === 'pendingReview' && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 rounded-lg p-3 mt-4">
+                Provisional estimate: we&apos;re confirming the driving distance to your property, so the travel cost may change.
+              </p>
+            )}
+          </div>
+
+          {repricing && (
+            <div className="bg-blue-50 border-2 border-blue-200 rounded-2xl p-6 text-sm space-y-2">
+              <p className="font-semibold text-blue-800">
+                Updated {formatDate(repricing.repricedAt)} with current pricing
+                {repricing.changes.length === 0 && '—your price did not change.'}
+              </p>
+              {repricing.changes.map((change) => (
+                <div key={change.label} className="flex justify-between text-blue-800">
+                  <span>{change.label}:</span>
+                  <span>
+                    <span className="line-through text-blue-500">{change.before}</span> → <span className="font-semibold">{change.after}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-gray-50 rounded-2xl p-6 space-y-3 text-sm">
+            {includesWash && (
+              <div className="flex justify-between">
+                <span className="text-gray-700">Base Service ({input.squareFeet.toLocaleString()} sq ft, {input.stories} storey):</span>
+                <span className="font-semibold">${breakdown.basePrice.toFixed(2)}</span>
+              </div>
+            )}
+            {breakdown.materialSurcharge > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-700">{materialLabel} Material Surcharge:</span>
+                <span className="font-semibold">+${breakdown.materialSurcharge.toFixed(2)}</span>
+              </div>
+            )}
+            {breakdown.condition && (
+              <div className="flex justify-between">
+                <span className="text-gray-700">Property Condition ({breakdown.condition.factors.join(', ')}):</span>
+                <span className="font-semibold">+${breakdown.condition.amount.toFixed(2)}</span>
+              </div>
+            )}
+            {breakdown.services.map((item) => (
+              <div key={item.key} className="flex justify-between">
+                <span className="text-gray-700">{item.label} ({item.detail}):</span>
+                <span className="font-semibold">${item.price.toFixed(2)}</span>
+              </div>
+            ))}
+            {breakdown.addOns.map((item) => (
+              <div key={item.key} className="flex justify-between">
+                <span className="text-gray-700">{item.label} ({item.quantity.toLocaleString()} {item.unit}):</span>
+                <span className="font-semibold">+${item.price.toFixed(2)}</span>
+              </div>
+            ))}
+            {breakdown.discount && (
+              <div className="flex justify-between">
+                <span className="text-gray-700">{breakdown.discount.label} ({breakdown.discount.code}):</span>
+                <span className="font-semibold text-green-700">-${breakdown.discount.amount.toFixed(2)}</span>
+              </div>
+            )}
+            {breakdown.travelSurcharge > 0 && (
+              <div className="flex justify-between border-t pt-2">
+                <span className="text-gray-700">Travel Surcharge ({Math.round(routing.distance)}km):</span>
+                <span className="font-semibold text-orange-600">+${breakdown.travelSurcharge.toFixed(2)}</span>
+              </div>
+            )}
+            {breakdown.minimumChargeAdjustment > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-700">Minimum Job Charge Adjustment:</span>
+                <span className="font-semibold">+${breakdown.minimumChargeAdjustment.toFixed(2)}</span>
+              </div>
+            )}
+            {breakdown.taxes.map((tax) => (
+              <div key={tax.name} className="flex justify-between">
+                <span className="text-gray-700">{tax.name} ({formatTaxRate(tax.rate)}):</span>
+                <span className="font-semibold">+${tax.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+
+          <ul className="text-gray-700 space-y-1">
+            <li><strong>Services:</strong> {services.map((key) => SERVICE_LABELS[key]).join(', ')}</li>
+            {includesWash && (
+              <li><strong>Material:</strong> {materialLabel} ({TECHNIQUE_LABELS[quote.technique]})</li>
+            )}
+            <li><strong>Estimated Time On Site:</strong> {duration.onSiteHours} hours (crew of {duration.crewSize})</li>
+            <li><strong>Quoted:</strong> {formatDate(stored.createdAt)}</li>
+            {stored.booking && (
+              <li>
+                <strong>Booked:</strong> {formatBookingDate(stored.booking.date)}, {stored.booking.start}–{stored.booking.end}
+              </li>
+            )}
+          </ul>
+        </div>
+
+        {acceptance ? (
+          <div className="bg-green-50 border-2 border-green-200 rounded-3xl p-8 text-center space-y-2">
+            <h2 className="text-2xl font-bold text-green-800">Quote accepted</h2>
+            <p className="text-green-800">
+              {acceptance.price.name}: ${acceptance.price.minPrice.toLocaleString()} - ${acceptance.price.maxPrice.toLocaleString()}
+            </p>
+            <p className="text-sm text-green-700">
+              Signed by {acceptance.signature.name} on {formatDate(acceptance.acceptedAt)}. We&apos;ll be in touch to schedule your service.
+            </p>
+            {payment && (
+              <p className="text-sm font-semibold text-green-800 pt-2">
+                Deposit of ${payment.amount.toFixed(2)} received {formatDate(payment.paidAt)}. Your booking is secured.
+              </p>
+            )}
+            {depositAmount !== undefined && (
+              <div className="pt-4 space-y-3">
+                {depositReturn === 'success' ? (
+                  <p className="text-sm text-green-800">Thanks! We&apos;re confirming your deposit payment—refresh this page in a moment.</p>
+                ) : (
+                  <>
+                    <p className="text-green-800">
+                      Secure your booking with a ${depositAmount.toFixed(2)} deposit, deducted from your final invoice.
+                      {depositReturn === 'cancelled' && ' Your payment was cancelled—you can try again any time.'}
+                    </p>
+                    <DepositCheckout quoteId={stored.id} token={stored.accessToken} amount={depositAmount} />
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          !isExpired && (
+            <div className="bg-white rounded-3xl shadow-lg p-8 space-y-4">
+              <h2 className="text-2xl font-bold text-center" style={{ color: '#2d3a6b' }}>
+                Accept your quote
+              </h2>
+              <QuoteAcceptance
+                quoteId={stored.id}
+                token={stored.accessToken}
+                address={input.address}
+                options={acceptanceOptions}
+              />
+            </div>
+          )
+        )}
+
+        {/* BOOKING: Only accepted quotes, so the job is sized for what was signed */}
+        {acceptance && !stored.booking && !routing.provisional && (
+          <BookingCalendar quoteId={stored.id} token={stored.accessToken} />
+        )}
+
+        <div className="bg-white rounded-3xl shadow-lg p-8 text-center space-y-4">
+          <h2 className="text-2xl font-bold" style={{ color: '#2d3a6b' }}>
+            {acceptance ? 'Questions?' : 'Prefer to talk?'}
+          </h2>
+          <p className="text-gray-600">Give us a call or send us an email with your quote reference and we&apos;ll find a time that works.</p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <a
+              href="tel:(206)619-7551"
+              className="px-8 py-3 rounded-xl font-semibold text-white"
+              style={{ backgroundColor: '#2d3a6b' }}
+            >
+              Call (206) 619-7551
+            </a>
+            <a
+              href={`mailto:waterboys@example.com?subject=${encodeURIComponent(`Booking ${stored.id}`)}`}
+              className="px-8 py-3 rounded-xl font-semibold border-2"
+              style={{ borderColor: '#2d3a6b', color: '#2d3a6b' }}
+            >
+              Email to Book
+            </a>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,9 +1,26 @@
 import QuoteGenerator from '../components/QuoteGenerator';
+import { getPricingCatalog } from '../lib/catalog-store';
+import { getAddOnOptions, getMaterialOptions, SERVICE_KEYS } from '../lib/pricing';
+
+// Service pages link here with ?service=windowCleaning|gutterCleaning
+export default async function Quote({
+  searchParams,
+}: {
+  searchParams: Promise<{ service?: string }>;
+}) {
+  const { service } = await searchParams;
+  const initialService = SERVICE_KEYS.find((key) => key === service);
+
+  // Wizard options come from the live catalog; only public fields reach the browser
+  const catalog = await getPricingCatalog();
 
-export default function Quote() {
   return (
     <main className="min-h-screen">
-      <QuoteGenerator />
+      <QuoteGenerator
+        initialService={initialService}
+        materialOptions={getMaterialOptions(catalog)}
+        addOnOptions={getAddOnOptions(catalog)}
+      />
     </main>
   );
 }
@@ -38,7 +38,7 @@ export default function WindowCleaning() {
             </div>
           </div>
           <Link
-            href="/quote"
+            href="/quote?service=windowCleaning"
             className="px-6 py-3 rounded-lg font-bold text-lg w-fit"
             style={{ backgroundColor: "#2d3a6b", color: "#f5f1e8" }}
           >
@@ -121,7 +121,7 @@ export default function WindowCleaning() {
             </p>
             <div className="flex flex-wrap gap-4">
               <Link
-                href="/quote"
+                href="/quote?service=windowCleaning"
                 className="px-6 py-3 rounded-lg font-bold text-lg"
                 style={{ backgroundColor: "#2d3a6b", color: "#f5f1e8" }}
               >